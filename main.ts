@@ -1,234 +1,391 @@
 // Importing necessary libraries from 'obsidian'
-import { App, ItemView, WorkspaceLeaf, Plugin, PluginSettingTab, Setting, MarkdownView, setIcon } from 'obsidian';
-
-interface Condition {
-    text: string;
-    icon: string;
+import {
+    App, Editor, Events, ItemView, WorkspaceLeaf, Plugin, PluginSettingTab, Setting, MarkdownView, Menu, Modal, Notice, SuggestModal, TFile, ViewStateResult,
+    moment, normalizePath, setIcon,
+} from 'obsidian';
+import { ForecastDay, Place, WeatherAlert, WeatherData } from './src/types';
+import { PROVIDERS, ProviderId, getProvider, parseCoordinates } from './src/providers';
+import { fillWeatherTemplate } from './src/template';
+import { WeatherError, WeatherErrorKind } from './src/errors';
+import { RULE_METRICS, RuleMetric, RuleOperator, WeatherRule, checkRule, dayName, describeRule, metricName } from './src/rules';
+import { getDailyNoteDate, getDailyNoteSettings } from './src/dailyNotes';
+import { UNIT_LABELS, UNIT_PRESETS, UnitPreset, UnitSettings, convertPrecipitation, convertTemperature, convertWind, roundTo } from './src/units';
+import { ClockFormat, formatDate, formatTimestamp } from './src/datetime';
+import { LANGUAGES, TranslationKey, getLanguage, setLanguage, t } from './src/i18n';
+import { AQI_STANDARDS, AirQualityIndex, AqiStandard, calculateAirQuality } from './src/airQuality';
+import { MAX_TRIP_DAYS, TripDay, formatTripTable, tripDates } from './src/trip';
+import { HISTORY_HEADER, HistoryMetric, HistoryRecord, averageByBucket, formatHistoryRow, parseHistory, toHistoryRecord } from './src/history';
+import { ChartSeries, SERIES_COLORS, createBarChart, createLineChart } from './src/charts';
+import {
+    ALL_SECTIONS, LAYOUT_NAMES, SECTION_NAMES, WeatherContext, WeatherLayout, WeatherSection, layoutSections, renderWeather,
+} from './src/components';
+import { IconStyle } from './src/icons';
+import { WeatherStore } from './src/store';
+import { WEATHER_UPDATED_EVENT, WeatherApi, WeatherUpdate } from './src/api';
+
+interface SavedLocation {
+    id: string;
+    name: string; // label shown in the location switcher
+    query: string; // what gets sent to the API as `q`, "lat,lon" for places picked in the search
+    place?: Place; // the place picked in the search, its name replaces the one the provider finds at the coordinates
+    temperatureUnit?: 'C' | 'F'; // overrides the global unit when set
 }
 
-interface AirQuality {
-    co: number;
-    no2: number;
-    o3: number;
-    so2: number;
-    pm2_5: number;
-    pm10: number;
-    "us-epa-index": number;
-    "gb-defra-index": number;
+interface CachedWeather {
+    data: WeatherData;
+    fetchedAt: number;
 }
 
-interface Current {
-    temp_c: number;
-    feelslike_c: number;
-    temp_f: number;
-    feelslike_f: number;
-    condition: Condition;
-    wind_kph: number;
-    humidity: number;
-    uv: number;
-    air_quality: AirQuality;
-}
+// Sections shown around what a status bar popover is about
+const POPOVER_SECTIONS: WeatherSection[] = ['alerts', 'header', 'current', 'airquality'];
 
-interface Location {
-    name: string;
-    region: string;
-    country: string;
-    localtime: string;
-}
+const LAYOUT_ICONS: Record<WeatherLayout, string> = {
+    full: 'layout-list',
+    compact: 'layout-panel-top',
+    minimal: 'minimize-2',
+};
 
-interface DayForecast {
-    maxtemp_c: number;
-    maxtemp_f: number;
-    mintemp_c: number;
-    mintemp_f: number;
-    avgtemp_c: number;
-    avgtemp_f: number;
-    maxwind_mph: number;
-    maxwind_kph: number;
-    totalprecip_mm: number;
-    totalprecip_in: number;
-    totalsnow_cm: number;
-    avgvis_km: number;
-    avgvis_miles: number;
-    avghumidity: number;
-    daily_will_it_rain: number;
-    daily_chance_of_rain: number;
-    daily_will_it_snow: number;
-    daily_chance_of_snow: number;
-    condition: Condition;
-    uv: number;
+const NARROW_VIEW_WIDTH = 300; // px, below this the view stacks what sits side by side
+
+const MAX_SEEN_ALERTS = 200; // alert ids remembered so their notices aren't repeated
+
+// Options of a ```weather code block, one `key: value` per line
+interface WeatherBlockOptions {
+    location?: string; // saved location name or anything the provider accepts
+    sections: WeatherSection[];
+    days: number;
 }
 
-interface Astro {
+// Frontmatter property names of the weather snapshot, an empty name skips that value
+interface FrontmatterKeys {
+    temp: string;
+    high: string;
+    low: string;
+    condition: string;
+    aqi: string;
+    precip: string;
     sunrise: string;
     sunset: string;
-    moonrise: string;
-    moonset: string;
-    moon_phase: string;
-    moon_illumination: string;
-    is_moon_up: number;
-    is_sun_up: number;
-}
-
-interface ForecastDay {
-    date: string;
-    date_epoch: number;
-    day: DayForecast;
-    astro: Astro;
-    hour: any[]; // You can replace 'any' with a more specific interface if needed
+    location: string;
 }
 
-interface Forecast {
-    forecastday: ForecastDay[];
-}
+type WeatherSnapshot = Partial<Record<keyof FrontmatterKeys, string | number>>;
 
-interface WeatherAPIResponse {
-    current: Current;
-    location: Location;
-    forecast?: Forecast;
-}
+// What data.json holds: the settings plus the last successful responses
+type WeatherPluginData = WeatherPluginSettings & {
+    weatherCache?: Record<string, CachedWeather>;
+    seenAlerts?: string[];
+    ruleFiredAt?: Record<string, number>;
+};
 
 interface WeatherPluginSettings {
-    location: string;
-    apiKey: string;
+    locations: SavedLocation[];
+    activeLocationId: string;
+    followActiveNote: boolean; // the view shows the place in the active note's frontmatter
+    noteLocationProperty: string;
+    provider: ProviderId;
+    apiKey: string; // weatherapi.com
+    openWeatherMapApiKey: string;
     refreshRate: number; // new setting for refresh rate in minutes
-    temperatureUnit: 'C' | 'F';
-    hideAirQuality: boolean | false;
+    forecastDays: number; // capped at the provider's maxForecastDays
+    cacheMaxAge: number; // hours before a saved response is no longer shown
+    units: UnitSettings; // a location's temperatureUnit overrides units.temperature
+    clockFormat: ClockFormat; // 'auto' follows the app's language
+    language: string; // 'auto' or a key of LANGUAGES, for the plugin and the providers' condition texts
+    sections: WeatherSection[]; // the view's sections in order, the ones left out are hidden
+    aqiStandard: AqiStandard;
+    iconStyle: IconStyle;
+    showStatusBar: boolean;
+    statusBarTemplate: string; // same placeholders as the insert template
+    insertTemplate: string; // used by the "Insert current weather" command
+    stampDailyNotes: boolean; // write a weather snapshot into new daily notes
+    alertNotifications: boolean; // show a notice for each new weather alert
+    rules: WeatherRule[];
+    ruleCooldown: number; // hours before the same rule can fire again for a location
+    frontmatterKeys: FrontmatterKeys;
+    recordHistory: boolean; // append every refresh to historyFile
+    historyFile: string;
 }
 
 const DEFAULT_SETTINGS: WeatherPluginSettings = {
-    location: '',
+    locations: [],
+    activeLocationId: '',
+    followActiveNote: false,
+    noteLocationProperty: 'location',
+    provider: 'weatherapi',
     apiKey: '',
+    openWeatherMapApiKey: '',
     refreshRate: 30,  // default refresh rate is 30 minutes
-    temperatureUnit: 'C',
-    hideAirQuality: false
+    forecastDays: 3,
+    cacheMaxAge: 6,
+    units: UNIT_PRESETS.metric,
+    clockFormat: 'auto',
+    language: 'auto',
+    sections: ALL_SECTIONS,
+    aqiStandard: 'us-epa',
+    iconStyle: 'bundled',
+    showStatusBar: false,
+    statusBarTemplate: '{{icon}} {{temp}} · {{rain}}',
+    insertTemplate: '{{condition}}, {{temp}} (feels like {{feelslike}}), humidity {{humidity}} in {{location}}',
+    stampDailyNotes: false,
+    alertNotifications: true,
+    rules: [],
+    ruleCooldown: 12,
+    frontmatterKeys: {
+        temp: 'weather_temp',
+        high: 'weather_high',
+        low: 'weather_low',
+        condition: 'weather_condition',
+        aqi: 'weather_aqi',
+        precip: 'weather_precip',
+        sunrise: 'weather_sunrise',
+        sunset: 'weather_sunset',
+        location: 'weather_location'
+    },
+    recordHistory: false,
+    historyFile: 'Weather/history.csv',
+};
+
+const RETRY_BASE_DELAY = 30 * 1000; // first automatic retry after a failed refresh, doubling after that
+
+const ERROR_TITLES: Record<WeatherErrorKind, TranslationKey> = {
+    config: 'error.config',
+    auth: 'error.auth',
+    location: 'error.location',
+    quota: 'error.quota',
+    network: 'error.network',
+    unknown: 'error.unknown',
 };
 
-function linearInterpolate(value: number, x: number[], y: number[]): number {
-    if (value <= x[0]) {
-        return y[0];
-    } else if (value >= x[x.length - 1]) {
-        return y[y.length - 1];
-    } else {
-        let i = 1;
-        while (value > x[i]) {
-            i++;
+function createId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+// Older versions stored a single `location` string - turn it into the first saved location.
+// They also only had a temperature unit, which now picks the matching unit preset,
+// and toggles for the air quality and astro sections, which now leave them out of the section list.
+type LegacySettings = { location?: string, temperatureUnit?: 'C' | 'F', hideAirQuality?: boolean, showAstro?: boolean };
+
+function migrateSettings(data: Partial<WeatherPluginSettings> & LegacySettings | null): WeatherPluginSettings {
+    const settings: WeatherPluginSettings = Object.assign({}, DEFAULT_SETTINGS, data);
+    const legacy = settings as WeatherPluginSettings & LegacySettings;
+
+    // Copy so pushes never end up in DEFAULT_SETTINGS
+    settings.locations = Array.isArray(settings.locations) ? settings.locations.slice() : [];
+    settings.frontmatterKeys = Object.assign({}, DEFAULT_SETTINGS.frontmatterKeys, settings.frontmatterKeys);
+    settings.rules = Array.isArray(settings.rules) ? settings.rules.slice() : [];
+    if (legacy.temperatureUnit && !data?.units) {
+        settings.units = legacy.temperatureUnit === 'F' ? UNIT_PRESETS.imperial : UNIT_PRESETS.metric;
+    }
+    delete legacy.temperatureUnit;
+    settings.units = Object.assign({}, DEFAULT_SETTINGS.units, settings.units);
+    if (typeof legacy.location === 'string') {
+        if (legacy.location && settings.locations.length === 0) {
+            settings.locations.push({ id: createId(), name: legacy.location, query: legacy.location });
         }
-        const slope = (y[i] - y[i - 1]) / (x[i] - x[i - 1]);
-        const yIntercept = y[i - 1] - slope * x[i - 1];
-        return Math.round(slope * value + yIntercept);
+        delete legacy.location;
+    }
+    settings.sections = Array.isArray(settings.sections)
+        ? settings.sections.filter(section => ALL_SECTIONS.includes(section))
+        : ALL_SECTIONS.slice();
+    if (!data?.sections) {
+        settings.sections = settings.sections.filter(section =>
+            (section !== 'airquality' || !legacy.hideAirQuality) && (section !== 'astro' || legacy.showAstro !== false));
     }
+    delete legacy.hideAirQuality;
+    delete legacy.showAstro;
+    if (!settings.locations.some(location => location.id === settings.activeLocationId)) {
+        settings.activeLocationId = settings.locations.length ? settings.locations[0].id : '';
+    }
+    return settings;
 }
 
-function calculatePollutantAQI(concentration: number, pollutant: string): number {
-    const c = concentration;
-    let AQI;
-
-    let breakpoints, AQIcalc;
-    switch (pollutant) {
-        case "co":
-            breakpoints = [0, 4.4, 9.4, 12.4, 15.4, 30.4, 40.4, 50.4];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300, 400, 500]);
-            break;
-        case "no2":
-            breakpoints = [0, 53, 100, 360, 649, 1249];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300]);
-            break;
-        case "o3":
-            breakpoints = [0, 54, 70, 85, 105, 200];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300]);
-            break;
-        case "so2":
-            breakpoints = [0, 35, 75, 185, 304, 604];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300]);
-            break;
-        case "pm2.5":
-            breakpoints = [0, 12.0, 35.4, 55.4, 150.4, 250.4, 350.4, 500.4];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300, 400, 500]);
-            break;
-        case "pm10":
-            breakpoints = [0, 54, 154, 254, 354, 424, 504, 604];
-            AQIcalc = linearInterpolate(c, breakpoints, [0, 50, 100, 150, 200, 300, 400, 500]);
-            break;
-        default:
-            throw new Error(`Invalid pollutant "${pollutant}"`);
-    }
-
-    AQI = Math.round(AQIcalc);
-    return AQI;
+const cacheKey = (query: string): string => query.trim().toLowerCase();
+
+// A link-type property holds "[[Paris]]" or "[[Places/Paris|the city]]", the place is the linked note's name
+const stripWikiLink = (value: string): string =>
+    value.trim().replace(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/, (_, target: string) => target.split('/').pop() ?? target).trim();
+
+// "Springfield, Illinois, United States"
+function describePlace(place: Place): string {
+    return [place.name, place.region, place.country].filter(Boolean).join(', ');
 }
 
+function parseWeatherBlock(source: string, defaultDays: number): WeatherBlockOptions {
+    const options: WeatherBlockOptions = { sections: ALL_SECTIONS, days: defaultDays };
+
+    source.split('\n').forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator === -1) return;
+
+        const key = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+        switch (key) {
+            case 'location':
+                options.location = value;
+                break;
+            case 'sections':
+                options.sections = value
+                    .split(',')
+                    .map(section => section.trim().toLowerCase().replace(/[\s_-]/g, ''))
+                    .filter((section): section is WeatherSection => ALL_SECTIONS.includes(section as WeatherSection));
+                // Blocks always name their location and show its time unless the header and footer are placed explicitly
+                if (!options.sections.includes('header')) options.sections.unshift('header');
+                if (!options.sections.includes('footer')) options.sections.push('footer');
+                break;
+            case 'days':
+                if (!isNaN(Number(value))) {
+                    options.days = Math.max(0, Math.round(Number(value)));
+                }
+                break;
+        }
+    });
+    return options;
+}
 
+type TrendRange = '24h' | '7d' | '30d' | '1y';
 
-function calculateAQI(co: number, no2: number, o3: number, so2: number, pm25: number, pm10: number): number {
-    const co_ppm = co / 1000;
-    const no2_ppm = no2 / 1000;
-    const o3_ppm = o3 / 1000;
-    const so2_ppm = so2 / 1000;
+const HOUR = 60 * 60 * 1000;
 
-    const coAQI = calculatePollutantAQI(co_ppm, "co");
-    const no2AQI = calculatePollutantAQI(no2_ppm, "no2");
-    const o3AQI = calculatePollutantAQI(o3_ppm, "o3");
-    const so2AQI = calculatePollutantAQI(so2_ppm, "so2");
-    const pm25AQI = calculatePollutantAQI(pm25, "pm2.5");
-    const pm10AQI = calculatePollutantAQI(pm10, "pm10");
+// Lines average the records per bucket, bars add up the precipitation per barBucket
+const TREND_RANGES: Record<TrendRange, { duration: number, bucket: number, barBucket: number }> = {
+    '24h': { duration: 24 * HOUR, bucket: HOUR, barBucket: HOUR },
+    '7d': { duration: 7 * 24 * HOUR, bucket: 3 * HOUR, barBucket: 24 * HOUR },
+    '30d': { duration: 30 * 24 * HOUR, bucket: 12 * HOUR, barBucket: 24 * HOUR },
+    '1y': { duration: 365 * 24 * HOUR, bucket: 24 * HOUR, barBucket: 7 * 24 * HOUR },
+};
 
-    return Math.max(coAQI, no2AQI, o3AQI, so2AQI, pm25AQI, pm10AQI);
+interface TrendMetric {
+    metric: HistoryMetric;
+    title: TranslationKey;
+    chart: 'line' | 'bar';
+    convert(value: number, units: UnitSettings): number;
+    unit(units: UnitSettings): string;
 }
 
-function describeAirQuality(data: AirQuality): { emoji: string, text: string, mainContributors: string } {
-    const aqi = calculateAQI(data.co, data.no2, data.o3, data.so2, data.pm2_5, data.pm10);
-    let unsafeDescriptions = "";
-    if (aqi > 100) {
-        const unsafePollutants = [
-            { name: 'CO', value: data.co },
-            { name: 'NO2', value: data.no2 },
-            { name: 'O3', value: data.o3 },
-            { name: 'SO2', value: data.so2 },
-            { name: 'PM2.5', value: data.pm2_5 },
-            { name: 'PM10', value: data.pm10 },
-        ].filter(pollutant => calculatePollutantAQI(pollutant.value, pollutant.name.toLowerCase()) >= 100);
-
-        unsafeDescriptions = unsafePollutants.map(pollutant => `${pollutant.name}: ${pollutant.value.toFixed(0)} µg/m³`).join(', ');
-
-    }
-
-    let airQualityEmoji: string;
-    let airQualityText: string;
-    if (aqi <= 50) {
-        airQualityEmoji = "😀";
-        airQualityText = "Good";
-    } else if (aqi <= 100) {
-        airQualityEmoji = "😐";
-        airQualityText = "Moderate";
-    } else if (aqi <= 150) {
-        airQualityEmoji = "😷";
-        airQualityText = "Unhealthy for Sensitive Groups";
-    } else if (aqi <= 200) {
-        airQualityEmoji = "🤢";
-        airQualityText = "Unhealthy";
-    } else if (aqi <= 300) {
-        airQualityEmoji = "🤮";
-        airQualityText = "Very Unhealthy";
-    } else {
-        airQualityEmoji = "💀";
-        airQualityText = "Hazardous";
-    }
-
-    return { emoji: airQualityEmoji, text: airQualityText, mainContributors: unsafeDescriptions };
-}
+const TREND_METRICS: TrendMetric[] = [
+    { metric: 'temp_c', title: 'trends.temperature', chart: 'line', convert: (value, units) => convertTemperature(value, units.temperature), unit: units => UNIT_LABELS.temperature[units.temperature] },
+    { metric: 'humidity', title: 'forecast.humidity', chart: 'line', convert: value => value, unit: () => '%' },
+    { metric: 'wind_kph', title: 'trends.wind', chart: 'line', convert: (value, units) => convertWind(value, units.wind), unit: units => ` ${UNIT_LABELS.wind[units.wind]}` },
+    { metric: 'uv', title: 'forecast.uv', chart: 'line', convert: value => value, unit: () => '' },
+    { metric: 'aqi', title: 'trends.airQuality', chart: 'line', convert: value => value, unit: () => '' },
+    // Snapshots hold the precipitation of about the last hour, so a bar is their mean times the hours it covers
+    { metric: 'precip_mm', title: 'forecast.precipitation', chart: 'bar', convert: (value, units) => convertPrecipitation(value, units.precipitation), unit: units => ` ${UNIT_LABELS.precipitation[units.precipitation]}` },
+];
+
+// Charts of the recorded history, comparing the chosen saved locations
+class WeatherTrendsView extends ItemView {
+    plugin: ObsidianWeatherPlugin;
+    range: TrendRange = '7d';
+    locationIds: string[] = [];
+
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianWeatherPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return 'WeatherTrendsView';
+    }
+
+    getDisplayText(): string {
+        return t('trends.title');
+    }
 
-function getUVIndexDescription(uvIndex: number): string {
-    if (uvIndex >= 0 && uvIndex <= 2) {
-        return "Low";
-    } else if (uvIndex <= 5) {
-        return "Moderate";
-    } else if (uvIndex <= 7) {
-        return "High";
-    } else if (uvIndex <= 10) {
-        return "Very High";
-    } else {
-        return "Extreme";
+    getIcon(): string {
+        return 'line-chart';
+    }
+
+    async onOpen() {
+        const active = this.plugin.getActiveLocation();
+        this.locationIds = active ? [active.id] : [];
+        await this.render();
+    }
+
+    async render() {
+        const { contentEl } = this;
+        const records = await this.plugin.readHistory();
+        contentEl.empty();
+        contentEl.addClass('weather-trends');
+
+        const controlsEl = contentEl.createDiv({ cls: 'weather-trends-controls' });
+        const rangeEl = controlsEl.createEl('select', { cls: 'dropdown' });
+        (Object.keys(TREND_RANGES) as TrendRange[]).forEach(range => {
+            rangeEl.createEl('option', { text: t(`trends.range.${range}`), value: range });
+        });
+        rangeEl.value = this.range;
+        rangeEl.onchange = () => {
+            this.range = rangeEl.value as TrendRange;
+            this.render();
+        };
+
+        const locations = this.plugin.settings.locations;
+        locations.forEach(location => {
+            const labelEl = controlsEl.createEl('label', { cls: 'weather-trends-location' });
+            const checkboxEl = labelEl.createEl('input', { type: 'checkbox' });
+            checkboxEl.checked = this.locationIds.includes(location.id);
+            checkboxEl.onchange = () => {
+                this.locationIds = checkboxEl.checked
+                    ? [...this.locationIds, location.id]
+                    : this.locationIds.filter(id => id !== location.id);
+                this.render();
+            };
+            labelEl.appendText(location.name || location.query);
+        });
+
+        if (!this.plugin.settings.recordHistory && !records.length) {
+            contentEl.createDiv({ cls: 'weather-trends-empty', text: t('trends.notRecording') });
+            return;
+        }
+
+        const { duration, bucket, barBucket } = TREND_RANGES[this.range];
+        const to = Date.now();
+        const from = to - duration;
+        const units = this.plugin.getUnits();
+        const clock = this.plugin.settings.clockFormat;
+        const selected = locations.filter(location => this.locationIds.includes(location.id));
+        const inRange = records.filter(record => record.time >= from);
+        if (!selected.length || !inRange.some(record => this.locationIds.includes(record.locationId))) {
+            contentEl.createDiv({ cls: 'weather-trends-empty', text: t('trends.noData') });
+            return;
+        }
+
+        const legendEl = contentEl.createDiv({ cls: 'weather-trends-legend' });
+        selected.forEach((location, index) => {
+            const itemEl = legendEl.createSpan({ cls: 'weather-trends-legend-item' });
+            itemEl.createSpan({ cls: 'weather-trends-swatch' }).style.background = SERIES_COLORS[index % SERIES_COLORS.length];
+            itemEl.appendText(location.name || location.query);
+        });
+
+        const formatX = (time: number): string => this.range === '24h'
+            ? formatTimestamp(time, clock)
+            : formatDate(moment(time).format('YYYY-MM-DD'), { day: 'numeric', month: 'short' });
+
+        TREND_METRICS.forEach(definition => {
+            // AQI values of different standards can't share an axis, only the current one is drawn
+            const metricRecords = definition.metric === 'aqi'
+                ? inRange.filter(record => record.aqi_standard === this.plugin.settings.aqiStandard)
+                : inRange;
+            const size = definition.chart === 'bar' ? barBucket : bucket;
+            const series: ChartSeries[] = selected.map((location, index) => ({
+                name: location.name,
+                color: SERIES_COLORS[index % SERIES_COLORS.length],
+                points: averageByBucket(metricRecords.filter(record => record.locationId === location.id), definition.metric, from, to, size)
+                    .map(point => point && {
+                        x: point.x,
+                        y: definition.convert(point.y, units) * (definition.chart === 'bar' ? size / HOUR : 1),
+                    }),
+            }));
+            if (series.every(({ points }) => points.every(point => !point))) return;
+
+            const unit = definition.unit(units);
+            const options = { from, to, formatX, formatY: (value: number) => `${roundTo(value, Math.abs(value) < 10 ? 1 : 0)}${unit}` };
+            const chartEl = contentEl.createDiv({ cls: 'weather-trends-chart' });
+            chartEl.createDiv({ cls: 'weather-trends-chart-title', text: t(definition.title) });
+            chartEl.appendChild(definition.chart === 'bar'
+                ? createBarChart(series, { ...options, barWidth: size })
+                : createLineChart(series, options));
+        });
     }
 }
 
@@ -236,6 +393,9 @@ class WeatherView extends ItemView {
     plugin: ObsidianWeatherPlugin;
     containerEl: HTMLElement; //new
     contentEl: HTMLElement;
+    errorEl: HTMLElement;
+    locationSelectEl: HTMLSelectElement;
+    layout: WeatherLayout = 'full'; // kept in the leaf's view state, so every pane has its own
 
     constructor(leaf: WorkspaceLeaf, plugin: ObsidianWeatherPlugin) {
         super(leaf);
@@ -247,10 +407,12 @@ class WeatherView extends ItemView {
         this.contentEl = createDiv();
         this.contentEl.className = 'weather-content';
 
-        this.setContent('');
+        this.errorEl = createDiv();
+        this.errorEl.className = 'weather-error';
 
         this.setButtons();
 
+        this.containerEl.appendChild(this.errorEl);
         this.containerEl.appendChild(this.contentEl);
 
     }
@@ -260,21 +422,75 @@ class WeatherView extends ItemView {
         refreshIcon.className = 'weather-refresh-button';
 
         setIcon(refreshIcon, 'refresh-ccw');
+        refreshIcon.setAttr('aria-label', t('view.refresh'));
 
         refreshIcon.onclick = () => {
             this.plugin.refreshWeather();
         };
 
+        // Switcher between the saved locations, hidden when there is only one
+        this.locationSelectEl = createEl('select');
+        this.locationSelectEl.className = 'dropdown weather-location-select';
+        this.locationSelectEl.onchange = () => {
+            this.plugin.setActiveLocation(this.locationSelectEl.value);
+        };
+        this.updateLocationSelect();
+
         const iconContainer = createDiv();
         iconContainer.className = 'weather-icon-container';
+        iconContainer.appendChild(this.locationSelectEl);
         iconContainer.appendChild(refreshIcon);
 
         this.containerEl.appendChild(iconContainer);
 
     }
 
-    setContent(weatherHTML: string) {
-        this.contentEl.innerHTML = weatherHTML;
+    updateLocationSelect() {
+        const { locations, activeLocationId } = this.plugin.settings;
+
+        this.locationSelectEl.empty();
+        locations.forEach(location => {
+            const optionEl = this.locationSelectEl.createEl('option', { text: location.name || location.query });
+            optionEl.value = location.id;
+        });
+        this.locationSelectEl.value = activeLocationId;
+        this.locationSelectEl.style.display = locations.length > 1 ? '' : 'none';
+    }
+
+    // Draws the plugin's latest snapshot in this view's layout
+    render() {
+        const { context, error } = this.plugin.store.snapshot;
+        (Object.keys(LAYOUT_NAMES) as WeatherLayout[]).forEach(layout => {
+            this.containerEl.toggleClass(`weather-layout-${layout}`, layout === this.layout);
+        });
+
+        this.updateLocationSelect();
+        this.contentEl.empty();
+        if (context) {
+            renderWeather(this.contentEl, context, layoutSections(this.layout, this.plugin.settings.sections));
+        }
+        this.setError(error);
+    }
+
+    setLayout(layout: WeatherLayout) {
+        this.layout = layout;
+        this.render();
+        this.app.workspace.requestSaveLayout();
+    }
+
+    // Shows what went wrong above the (possibly stale) weather, with a retry button
+    setError(error: WeatherError | null) {
+        this.errorEl.empty();
+        this.errorEl.toggle(!!error);
+        if (!error) return;
+
+        this.errorEl.createDiv({ cls: 'weather-error-title', text: t(ERROR_TITLES[error.kind]) });
+        this.errorEl.createDiv({ cls: 'weather-error-message', text: error.message });
+
+        const retryButton = this.errorEl.createEl('button', { text: t('view.retry') });
+        retryButton.onclick = () => {
+            this.plugin.retryActiveLocation();
+        };
     }
 
 
@@ -283,7 +499,7 @@ class WeatherView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'Obsidian Weather';
+        return t('view.title');
     }
 
 
@@ -291,410 +507,1154 @@ class WeatherView extends ItemView {
         return 'cloud-sun'; // Or whatever icon you want to use
     }
 
+    getState() {
+        return { ...super.getState(), layout: this.layout };
+    }
+
+    async setState(state: { layout?: WeatherLayout }, result: ViewStateResult) {
+        if (state?.layout && state.layout in LAYOUT_NAMES) {
+            this.layout = state.layout;
+            this.render();
+        }
+        await super.setState(state, result);
+    }
+
+    onPaneMenu(menu: Menu, source: string) {
+        super.onPaneMenu(menu, source);
+        (Object.keys(LAYOUT_NAMES) as WeatherLayout[]).forEach(layout => {
+            menu.addItem(item => item
+                .setTitle(t(LAYOUT_NAMES[layout]))
+                .setIcon(LAYOUT_ICONS[layout])
+                .setChecked(layout === this.layout)
+                .onClick(() => this.setLayout(layout)));
+        });
+    }
+
+    // Sidebars and phones get the narrow layout, the width is the leaf's, not the window's
+    onResize() {
+        this.containerEl.toggleClass('is-narrow', this.containerEl.clientWidth < NARROW_VIEW_WIDTH);
+    }
+
     async onOpen() {
-        // Schedule the initial refresh when the view is opened
-        this.plugin.scheduleRefresh();
+        // Every open view renders the same store, so the plugin only works the weather out once per change
+        this.register(this.plugin.store.subscribe(() => this.render()));
+        this.onResize();
     }
 }
 
 export default class ObsidianWeatherPlugin extends Plugin {
     settings: WeatherPluginSettings;
-    refreshTimer: NodeJS.Timeout | null = null; // timer for scheduling refreshes
+    refreshTimers: Record<string, NodeJS.Timeout> = {}; // one refresh timer per saved location
+    weatherCache: Record<string, CachedWeather> = {}; // last response per location query, shared by the view and code blocks
+    pendingRequests: Record<string, Promise<WeatherData>> = {}; // so concurrent callers share one API call
+    lastAttempts: Record<string, number> = {}; // when each query was last fetched, successful or not
+    fetchErrors: Record<string, WeatherError> = {}; // last error per query, its cached data is stale until a fetch succeeds
+    retryCounts: Record<string, number> = {}; // failed refreshes in a row per saved location, for the backoff
+    seenAlerts: string[] = []; // ids of the alerts a notice was shown for, oldest first
+    ruleFiredAt: Record<string, number> = {}; // last time each rule fired, keyed by "ruleId|locationId"
+    statusBarEl: HTMLElement | null = null;
+    statusPopoverEl: HTMLElement | null = null;
+    noteLocation: SavedLocation | null = null; // place of the active note while following it
+    noteRefreshTimer: NodeJS.Timeout | null = null; // refreshes noteLocation when it isn't a saved location
+    store = new WeatherStore(); // what every open weather view shows
+    api: WeatherApi = this.createApi(); // for scripts and other plugins
+    throttleQueue: Promise<void> = Promise.resolve(); // end of the last throttled request and its pause
+    historyQueue: Promise<void> = Promise.resolve(); // end of the last write to the history file
 
     async onload() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        await this.loadSettings();
 
         this.addSettingTab(new WeatherSettingTab(this.app, this));
 
-        this.registerView('WeatherView', (leaf: WorkspaceLeaf) => {
-            const view = new WeatherView(leaf, this);
-            this.refreshWeather(); // Refresh weather when the plugin first starts
-            return view;
-        });
+        this.registerView('WeatherView', (leaf: WorkspaceLeaf) => new WeatherView(leaf, this));
+
+        this.registerView('WeatherTrendsView', (leaf: WorkspaceLeaf) => new WeatherTrendsView(leaf, this));
+
+        // Show the saved responses straight away, before the first refresh comes back
+        this.app.workspace.onLayoutReady(() => this.renderActiveLocation());
+
+        // Follow the place of the active note
+        this.app.workspace.onLayoutReady(() => this.updateNoteLocation(this.app.workspace.getActiveFile()));
+        this.registerEvent(this.app.workspace.on('file-open', (file) => this.updateNoteLocation(file)));
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+            if (file === this.app.workspace.getActiveFile()) {
+                this.updateNoteLocation(file);
+            }
+        }));
+
+        this.registerMarkdownCodeBlockProcessor('weather', (source, el) => this.renderWeatherBlock(source, el));
 
         this.addCommand({
             id: 'open-weather',
-            name: 'Open Weather',
+            name: t('command.open'),
             callback: () => {
-                this.app.workspace.getRightLeaf(false).setViewState({
-                    type: 'WeatherView',
-                });
+                this.activateView();
+            },
+        });
+
+        this.addCommand({
+            id: 'open-weather-trends',
+            name: t('command.openTrends'),
+            callback: () => {
+                this.activateTrendsView();
             },
         });
 
         this.addCommand({
             id: 'refresh-weather',
-            name: 'Refresh Weather',
+            name: t('command.refresh'),
             callback: () => {
                 this.refreshWeather(); // Call refreshWeather on the plugin instance, not the view
             },
         });
 
+        this.addCommand({
+            id: 'insert-weather',
+            name: t('command.insert'),
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+                if (!view || !this.getActiveLocation()) return false;
+
+                if (!checking) {
+                    this.insertWeather(view.editor);
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'plan-trip',
+            name: t('command.planTrip'),
+            editorCallback: (editor: Editor) => {
+                new TripModal(this.app, this, editor).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'backfill-weather-history',
+            name: t('command.backfill'),
+            callback: () => {
+                this.backfillHistory();
+            },
+        });
+
+        this.addCommand({
+            id: 'stamp-weather',
+            name: t('command.stamp'),
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md' || !this.getActiveLocation()) return false;
+
+                if (!checking) {
+                    this.stampWeather(file);
+                }
+                return true;
+            },
+        });
+
+        // Wait for the layout so the vault's initial `create` events are skipped
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on('create', (file) => {
+                if (!this.settings.stampDailyNotes || !(file instanceof TFile)) return;
+
+                const date = getDailyNoteDate(file, getDailyNoteSettings(this.app));
+                if (date && date.isSame(moment(), 'day')) {
+                    // Give the daily note template (or Templater) time to write the file first
+                    window.setTimeout(() => this.stampWeather(file), 2000);
+                }
+            }));
+        });
+
         // Refresh the weather when the plugin first starts
         this.refreshWeather();
     }
 
+    // Writes a weather snapshot into the frontmatter, only filling properties that are missing or empty
+    async stampWeather(file: TFile) {
+        const location = this.getActiveLocation();
+        if (!location) return;
+
+        try {
+            const data = await this.getWeather(location.query);
+            const { current, forecast } = data;
+            const units = this.getUnits(location);
+            const today = forecast?.forecastday[0];
+
+            await this.writeSnapshot(file, {
+                ...(today && this.createDaySnapshot(today, units)),
+                temp: roundTo(convertTemperature(current.temp_c, units.temperature), 1),
+                condition: current.condition.text,
+                aqi: this.getAirQuality(data).value,
+                location: data.location.name,
+            });
+        } catch (error) {
+            console.error('Error adding weather to note:', error);
+            new Notice(t('notice.stampFailed', { note: file.basename }));
+        }
+    }
+
+    // Snapshot values of a forecast or past day
+    createDaySnapshot(forecastDay: ForecastDay, units: UnitSettings): WeatherSnapshot {
+        const { day, astro } = forecastDay;
+        const clockTime = (time: string) => {
+            const parsed = moment(time, 'hh:mm A', true);
+            return parsed.isValid() ? parsed.format('HH:mm') : undefined;
+        };
+
+        return {
+            temp: roundTo(convertTemperature(day.avgtemp_c, units.temperature), 1),
+            high: roundTo(convertTemperature(day.maxtemp_c, units.temperature), 1),
+            low: roundTo(convertTemperature(day.mintemp_c, units.temperature), 1),
+            condition: day.condition.text,
+            precip: roundTo(convertPrecipitation(day.totalprecip_mm, units.precipitation), units.precipitation === 'in' ? 2 : 1),
+            sunrise: clockTime(astro.sunrise),
+            sunset: clockTime(astro.sunset),
+        };
+    }
+
+    async writeSnapshot(file: TFile, snapshot: WeatherSnapshot) {
+        const keys = this.settings.frontmatterKeys;
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            (Object.keys(snapshot) as (keyof FrontmatterKeys)[]).forEach(name => {
+                const key = keys[name];
+                const value = snapshot[name];
+                const existing = frontmatter[key];
+                if (key && value !== undefined && (existing === undefined || existing === null || existing === '')) {
+                    frontmatter[key] = value;
+                }
+            });
+        });
+    }
+
+    // A note has weather once its temperature or condition property is filled
+    hasWeather(file: TFile): boolean {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const { temp, condition } = this.settings.frontmatterKeys;
+        return !!frontmatter && [temp, condition].some(key => key && frontmatter[key] !== undefined && frontmatter[key] !== null && frontmatter[key] !== '');
+    }
+
+    // Fetches the weather of the day for every past daily note that has none yet.
+    // Notes are skipped once written, so running it again continues where a cancelled or failed run stopped.
+    async backfillHistory() {
+        const provider = getProvider(this.settings.provider);
+        const location = this.getActiveLocation();
+        const apiKey = this.getApiKey();
+
+        if (!provider.fetchHistory) {
+            new Notice(t('notice.noHistory', { provider: provider.name }));
+            return;
+        }
+        if (!location || !location.query || (provider.requiresApiKey && !apiKey)) {
+            new Notice(t('notice.setUpFirst'));
+            return;
+        }
+
+        const dailyNoteSettings = getDailyNoteSettings(this.app);
+        const today = moment().startOf('day');
+        const notes = this.app.vault.getMarkdownFiles()
+            .map(file => ({ file, date: getDailyNoteDate(file, dailyNoteSettings) }))
+            .filter((note): note is { file: TFile, date: moment.Moment } => !!note.date && note.date.isBefore(today))
+            .filter(note => !this.hasWeather(note.file))
+            .sort((a, b) => b.date.valueOf() - a.date.valueOf());
+
+        if (!notes.length) {
+            new Notice(t('notice.allHaveWeather'));
+            return;
+        }
+
+        const units = this.getUnits(location);
+        const modal = new BackfillModal(this.app, notes.length);
+        modal.open();
+
+        let written = 0;
+        let failed = 0;
+        for (const [index, { file, date }] of notes.entries()) {
+            if (modal.cancelled) break;
+
+            try {
+                const history = await provider.fetchHistory({ query: location.query, apiKey, date: date.format('YYYY-MM-DD'), lang: getLanguage() });
+                await this.writeSnapshot(file, {
+                    ...this.createDaySnapshot(history.forecastday, units),
+                    location: history.location.name,
+                });
+                written++;
+            } catch (error) {
+                const weatherError = WeatherError.from(error);
+                failed++;
+                modal.log(`${file.basename}: ${weatherError.message}`);
+
+                // Stop at the rate limit, a bad key or an unknown location, the remaining notes would fail the same way
+                if (weatherError.kind !== 'network' && weatherError.kind !== 'unknown') {
+                    modal.log(t('backfill.stopped'));
+                    break;
+                }
+            }
+
+            modal.setProgress(index + 1, t('backfill.summary', { written, failed }));
+            await new Promise(resolve => window.setTimeout(resolve, provider.requestInterval));
+        }
+
+        modal.finish(t('backfill.done', { summary: t('backfill.summary', { written, failed }) }));
+    }
+
+    // Fills the insert template with the active location's weather and puts it at the cursor
+    async insertWeather(editor: Editor) {
+        const location = this.getActiveLocation();
+        if (!location) return;
+
+        try {
+            const data = await this.getWeather(location.query);
+            const text = fillWeatherTemplate(this.settings.insertTemplate, data, {
+                units: this.getUnits(location),
+                clock: this.settings.clockFormat,
+                aqi: this.getAirQuality(data).value,
+            });
+            editor.replaceSelection(text);
+        } catch (error) {
+            console.error('Error fetching weather data:', error);
+            new Notice(t('notice.loadFailed', { location: location.name }));
+        }
+    }
+
+    // Writes a forecast table for a trip at the cursor: the forecast for the near days, the provider's outlook past it
+    async planTrip(editor: Editor, locationText: string, start: string, end: string) {
+        const saved = this.settings.locations.find(location => location.name.toLowerCase() === locationText.toLowerCase());
+        const query = saved?.query ?? locationText;
+        const provider = getProvider(this.settings.provider);
+        const apiKey = this.getApiKey();
+        const lang = getLanguage();
+        if (provider.requiresApiKey && !apiKey) {
+            new Notice(t('error.noApiKey', { provider: provider.name }));
+            return;
+        }
+
+        const progress = new Notice(t('notice.planningTrip', { location: locationText }), 0);
+        try {
+            // The trip wants the whole forecast, not the days the view shows
+            const data = await this.throttled(() => provider.fetchWeather({ query, apiKey, days: provider.maxForecastDays, lang }));
+            const forecastDays = data.forecast?.forecastday ?? [];
+
+            const days: TripDay[] = [];
+            let outlookError: WeatherError | null = null;
+            for (const date of tripDates(start, end)) {
+                const forecastDay = forecastDays.find(forecastDay => forecastDay.date === date);
+                if (forecastDay) {
+                    days.push({ date, source: 'forecast', forecastDay });
+                    continue;
+                }
+                // One request per day, spaced like the refreshes. Only a day the provider has no outlook for is skipped,
+                // after a bad key, the quota or any other error the remaining days would fail the same way
+                const fetchOutlook = provider.fetchOutlook?.bind(provider);
+                if (fetchOutlook && !outlookError) {
+                    try {
+                        const { forecastday } = await this.throttled(() => fetchOutlook({ query, apiKey, date, lang }));
+                        days.push({ date, source: 'outlook', forecastDay: forecastday });
+                        continue;
+                    } catch (error) {
+                        const weatherError = WeatherError.from(error);
+                        if (weatherError.kind !== 'location') {
+                            outlookError = weatherError;
+                        }
+                    }
+                }
+                days.push({ date, source: 'none' });
+            }
+
+            const name = saved?.place?.name ?? data.location.name;
+            editor.replaceSelection(formatTripTable(name, days, this.getUnits(saved), data.location.localtime.slice(0, 10)) + '\n');
+            if (outlookError) {
+                new Notice(t('notice.outlookFailed', { message: outlookError.message }));
+            }
+        } catch (error) {
+            console.error('Error fetching the trip forecast:', error);
+            new Notice(t('notice.loadFailed', { location: locationText }));
+        } finally {
+            progress.hide();
+        }
+    }
+
+    getAirQuality(data: WeatherData): AirQualityIndex {
+        return calculateAirQuality(data.current.air_quality, this.settings.aqiStandard);
+    }
+
+    // The global units, with the location's own temperature unit if it has one
+    getUnits(location?: SavedLocation): UnitSettings {
+        return { ...this.settings.units, temperature: location?.temperatureUnit ?? this.settings.units.temperature };
+    }
+
+    getActiveLocation(): SavedLocation | undefined {
+        return this.settings.locations.find(location => location.id === this.settings.activeLocationId);
+    }
+
+    // The active note's place while following the active note, the active saved location otherwise
+    getViewLocation(): SavedLocation | undefined {
+        return this.noteLocation ?? this.getActiveLocation();
+    }
+
+    // Reads the place from the note's frontmatter: a saved location's name, anything the provider accepts,
+    // a link to a note named after the place, or coordinates as "lat,lon" or [lat, lon]
+    getNoteLocation(file: TFile | null): SavedLocation | null {
+        if (!this.settings.followActiveNote || !file) return null;
+
+        const value: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[this.settings.noteLocationProperty];
+        let query = '';
+        if (Array.isArray(value) && value.length === 2 && value.every(part => !isNaN(Number(part)))) {
+            query = `${Number(value[0])},${Number(value[1])}`;
+        } else if (typeof value === 'string' || typeof value === 'number') {
+            query = stripWikiLink(String(value));
+        }
+        if (!query) return null;
+
+        const saved = this.settings.locations.find(location => location.name.toLowerCase() === query.toLowerCase());
+        return saved ?? { id: 'note', name: query, query };
+    }
+
+    // Switches the view to the note's place, fetching it only when the cache has nothing recent
+    async updateNoteLocation(file: TFile | null) {
+        const location = this.getNoteLocation(file);
+        if (location?.id === this.noteLocation?.id && location?.query === this.noteLocation?.query) return;
+
+        this.noteLocation = location;
+        this.scheduleNoteRefresh();
+        this.renderActiveLocation();
+        if (location && !this.settings.locations.includes(location)) {
+            await this.getWeather(location.query).catch(() => undefined);
+            if (this.noteLocation === location) {
+                this.renderActiveLocation();
+            }
+        } else if (location && !this.getCached(location.query)) {
+            await this.refreshLocation(location);
+        }
+    }
+
+    async setActiveLocation(id: string) {
+        this.settings.activeLocationId = id;
+        await this.savePluginData();
+
+        const location = this.getActiveLocation();
+        if (location && !this.getCached(location.query)) {
+            await this.refreshLocation(location);
+        } else {
+            this.renderActiveLocation();
+        }
+    }
+
+    getApiKey(): string {
+        switch (this.settings.provider) {
+            case 'openweathermap':
+                return this.settings.openWeatherMapApiKey;
+            case 'openmeteo':
+                return '';
+            default:
+                return this.settings.apiKey;
+        }
+    }
+
+    // Refreshes every saved location, and the active note's place when it is none of them
     async refreshWeather() {
-        // console.log('Refreshing weather...');
-        if (!this.settings.apiKey || !this.settings.location) return;
+        await Promise.all(this.settings.locations.map(location => this.refreshLocation(location)));
+
+        const noteLocation = this.noteLocation;
+        if (noteLocation && !this.settings.locations.includes(noteLocation)) {
+            await this.getWeather(noteLocation.query).catch(() => undefined);
+            this.renderActiveLocation();
+        }
+    }
+
+    // Cached response for a query, unless it is older than the cache max age
+    getCached(query: string): CachedWeather | undefined {
+        const cached = this.weatherCache[cacheKey(query)];
+        if (cached && Date.now() - cached.fetchedAt < this.settings.cacheMaxAge * 60 * 60 * 1000) {
+            return cached;
+        }
+        return undefined;
+    }
+
+    // Cached data is stale when its last refresh failed or it is older than the refresh rate
+    isStale(query: string, cached: CachedWeather): boolean {
+        const interval = this.settings.refreshRate === 999 ? Infinity : this.settings.refreshRate * 60 * 1000;
+        return cacheKey(query) in this.fetchErrors || Date.now() - cached.fetchedAt > interval;
+    }
 
-        const url = `http://api.weatherapi.com/v1/forecast.json?key=${this.settings.apiKey}&q=${this.settings.location}&days=3&aqi=yes`;
+    // Cached response for a query that is younger than the refresh rate, so it needs no new request
+    getFresh(query: string): CachedWeather | undefined {
+        const cached = this.getCached(query);
+        const maxAge = this.settings.refreshRate === 999 ? Infinity : this.settings.refreshRate * 60 * 1000;
+        return cached && Date.now() - cached.fetchedAt < maxAge ? cached : undefined;
+    }
 
+    // Returns the cached weather for a query, fetching it when missing, outdated or forced
+    async getWeather(query: string, force = false): Promise<WeatherData> {
+        const key = cacheKey(query);
+        const fresh = this.getFresh(query);
+        if (fresh && !force) {
+            return fresh.data;
+        }
+
+        if (!this.pendingRequests[key]) {
+            const provider = getProvider(this.settings.provider);
+            const apiKey = this.getApiKey();
+            if (provider.requiresApiKey && !apiKey) {
+                throw new WeatherError('config', t('error.noApiKey', { provider: provider.name }));
+            }
+
+            this.lastAttempts[key] = Date.now();
+            this.pendingRequests[key] = (async () => {
+                try {
+                    const days = Math.min(this.settings.forecastDays, provider.maxForecastDays);
+                    const data = await provider.fetchWeather({ query, apiKey, days, lang: getLanguage() });
+                    const place = this.settings.locations.find(location => location.place && location.query === query)?.place;
+                    if (place) {
+                        data.location = { ...data.location, name: place.name, region: place.region, country: place.country };
+                    }
+                    this.weatherCache[key] = { data, fetchedAt: Date.now() };
+                    delete this.fetchErrors[key];
+                    await this.savePluginData();
+
+                    const update: WeatherUpdate = {
+                        query,
+                        locationId: this.settings.locations.find(location => location.query === query)?.id,
+                        data,
+                        airQuality: this.getAirQuality(data),
+                        fetchedAt: this.weatherCache[key].fetchedAt,
+                    };
+                    this.app.workspace.trigger(WEATHER_UPDATED_EVENT, update);
+                    return data;
+                } catch (error) {
+                    this.fetchErrors[key] = WeatherError.from(error);
+                    throw this.fetchErrors[key];
+                } finally {
+                    delete this.pendingRequests[key];
+                }
+            })();
+        }
+        return this.pendingRequests[key];
+    }
+
+    async refreshLocation(savedLocation: SavedLocation) {
+        // console.log(`Refreshing weather for ${savedLocation.name}...`);
+        if (!savedLocation.query) {
+            this.renderActiveLocation();
+            return;
+        }
+
+        let retryable = true;
         try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch weather data. Status: ${response.status} ${response.statusText}`);
+            const data = await this.getWeather(savedLocation.query, true);
+            delete this.retryCounts[savedLocation.id];
+            await this.notifyAlerts(savedLocation, data.alerts ?? []);
+            await this.checkRules(savedLocation, data);
+            await this.recordHistory(savedLocation, data);
+        } catch (error) {
+            console.error(`Error fetching weather data for ${savedLocation.name}:`, error);
+            retryable = WeatherError.from(error).retryable;
+            this.retryCounts[savedLocation.id] = (this.retryCounts[savedLocation.id] ?? 0) + 1;
+        }
+
+        // Keeps showing the saved response after an error, now marked as stale
+        if (savedLocation.id === this.settings.activeLocationId) {
+            this.renderActiveLocation();
+        }
+
+        // Schedule the next refresh, unless retrying can't help until the settings change
+        if (retryable) {
+            this.scheduleRefresh(savedLocation);
+        }
+    }
+
+    // Raises a notice the first time each alert is seen
+    async notifyAlerts(savedLocation: SavedLocation, alerts: WeatherAlert[]) {
+        const newAlerts = alerts.filter(alert => !this.seenAlerts.includes(alert.id));
+        if (!newAlerts.length) return;
+
+        if (this.settings.alertNotifications) {
+            newAlerts.forEach(alert => {
+                new Notice(`⚠ ${savedLocation.name}: ${alert.event || alert.headline}`, 10000);
+            });
+        }
+
+        this.seenAlerts = this.seenAlerts.concat(newAlerts.map(alert => alert.id)).slice(-MAX_SEEN_ALERTS);
+        await this.savePluginData();
+    }
+
+    // Fires the user's threshold rules that are met, at most once per cooldown
+    async checkRules(savedLocation: SavedLocation, data: WeatherData) {
+        const aqi = this.getAirQuality(data).value;
+        const units = this.getUnits(savedLocation);
+        const cooldown = this.settings.ruleCooldown * 60 * 60 * 1000;
+        let fired = false;
+
+        for (const rule of this.settings.rules) {
+            const key = `${rule.id}|${savedLocation.id}`;
+            if (!rule.enabled || Date.now() - (this.ruleFiredAt[key] ?? 0) < cooldown) continue;
+
+            const value = checkRule(rule, data, aqi, units);
+            if (value === undefined) continue;
+
+            const message = t('rule.fired', { location: savedLocation.name, rule: describeRule(rule, units), value });
+            new Notice(`🔔 ${message}`, 10000);
+            if (rule.note) {
+                await this.appendToNote(rule.note, `- ${moment().format('YYYY-MM-DD HH:mm')} ${message}`);
             }
-            const data: WeatherAPIResponse = await response.json();
 
-            if (data.forecast) {
+            this.ruleFiredAt[key] = Date.now();
+            fired = true;
+        }
+
+        if (fired) {
+            await this.savePluginData();
+        }
+    }
+
+    async appendToNote(path: string, line: string) {
+        const notePath = normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+        const file = this.app.vault.getAbstractFileByPath(notePath);
 
-                const weatherHTML = this.createWeatherHTML(data);
-                this.updateWeatherLeaf(weatherHTML);
+        try {
+            if (file instanceof TFile) {
+                await this.app.vault.process(file, content => `${content}${content && !content.endsWith('\n') ? '\n' : ''}${line}\n`);
+            } else {
+                await this.app.vault.create(notePath, `${line}\n`);
+            }
+        } catch (error) {
+            console.error(`Error writing to ${notePath}:`, error);
+        }
+    }
 
+    // Appends a snapshot to the history log, creating the file with its header first
+    async recordHistory(savedLocation: SavedLocation, data: WeatherData) {
+        if (!this.settings.recordHistory) return;
+
+        const path = normalizePath(this.settings.historyFile);
+        const record = toHistoryRecord(data, savedLocation.id, savedLocation.name, this.getAirQuality(data).value, this.settings.aqiStandard);
+        const row = `${formatHistoryRow(record)}\n`;
+        // The locations refresh together, one write at a time so only the first one creates the file
+        const written = this.historyQueue.then(() => this.appendHistoryRow(path, row));
+        this.historyQueue = written.then(() => undefined);
+        if (await written) {
+            this.app.workspace.getLeavesOfType('WeatherTrendsView').forEach(leaf => (leaf.view as WeatherTrendsView).render());
+        }
+    }
+
+    async appendHistoryRow(path: string, row: string): Promise<boolean> {
+        try {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.app.vault.append(file, row);
+            } else {
+                const folder = path.split('/').slice(0, -1).join('/');
+                if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                    await this.app.vault.createFolder(folder);
+                }
+                await this.app.vault.create(path, `${HISTORY_HEADER}\n${row}`);
             }
+            return true;
         } catch (error) {
-            console.error('Error fetching weather data:', error);
+            console.error(`Error writing to ${path}:`, error);
+            return false;
         }
+    }
 
-        // Schedule the next refresh
-        this.scheduleRefresh();
+    async readHistory(): Promise<HistoryRecord[]> {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.historyFile));
+        return file instanceof TFile ? parseHistory(await this.app.vault.cachedRead(file)) : [];
     }
 
-    scheduleRefresh() {
+    async activateTrendsView() {
+        const { workspace } = this.app;
+        let [leaf] = workspace.getLeavesOfType('WeatherTrendsView');
+        if (!leaf) {
+            leaf = workspace.getLeaf(true);
+            await leaf.setViewState({ type: 'WeatherTrendsView' });
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    // Manual retry from the error state, restarting the backoff
+    async retryActiveLocation() {
+        const location = this.getViewLocation();
+        if (location && !this.settings.locations.includes(location)) {
+            await this.getWeather(location.query, true).catch(() => undefined);
+            this.renderActiveLocation();
+        } else if (location) {
+            delete this.retryCounts[location.id];
+            await this.refreshLocation(location);
+        } else {
+            this.renderActiveLocation();
+        }
+    }
+
+    // The active note's place has no saved location, and so no timer of its own there; it gets this one while the note is open
+    scheduleNoteRefresh() {
+        if (this.noteRefreshTimer) {
+            clearTimeout(this.noteRefreshTimer);
+            this.noteRefreshTimer = null;
+        }
+
+        const location = this.noteLocation;
+        if (!location || this.settings.locations.includes(location) || this.settings.refreshRate === 999) return;
+
+        const key = cacheKey(location.query);
+        const interval = this.settings.refreshRate * 60 * 1000;
+        const lastFetch = Math.max(this.weatherCache[key]?.fetchedAt ?? 0, this.lastAttempts[key] ?? 0);
+        this.noteRefreshTimer = setTimeout(async () => {
+            await this.getWeather(location.query).catch(() => undefined);
+            if (this.noteLocation === location) {
+                this.renderActiveLocation();
+                this.scheduleNoteRefresh();
+            }
+        }, Math.max(0, lastFetch + interval - Date.now()));
+    }
+
+    // Reschedules one location, or all of them when called without arguments
+    scheduleRefresh(savedLocation?: SavedLocation) {
+        if (!savedLocation) {
+            this.scheduleNoteRefresh();
+
+            // Drop timers of locations that were removed
+            for (const id of Object.keys(this.refreshTimers)) {
+                if (!this.settings.locations.some(location => location.id === id)) {
+                    clearTimeout(this.refreshTimers[id]);
+                    delete this.refreshTimers[id];
+                }
+            }
+            this.settings.locations.forEach(location => this.scheduleRefresh(location));
+            return;
+        }
+
+        const { id, query } = savedLocation;
+
         // Clear the previous timer
-        if (this.refreshTimer) {
-            clearTimeout(this.refreshTimer);
+        if (this.refreshTimers[id]) {
+            clearTimeout(this.refreshTimers[id]);
+            delete this.refreshTimers[id];
         }
 
         // Schedule a new timer only if refreshRate is not set to 999
         if (this.settings.refreshRate !== 999) {
-            this.refreshTimer = setTimeout(() => this.refreshWeather(), this.settings.refreshRate * 60 * 1000);
+            // Each location keeps its own schedule, counted from its last fetch
+            const key = cacheKey(query);
+            const lastFetch = Math.max(this.weatherCache[key]?.fetchedAt ?? 0, this.lastAttempts[key] ?? 0);
+            const retries = this.retryCounts[id] ?? 0;
+            // Failed refreshes are retried with an exponential backoff, never waiting longer than the refresh rate
+            const interval = retries
+                ? Math.min(RETRY_BASE_DELAY * 2 ** (retries - 1), this.settings.refreshRate * 60 * 1000)
+                : this.settings.refreshRate * 60 * 1000;
+            const delay = lastFetch ? Math.max(0, lastFetch + interval - Date.now()) : interval;
+
+            this.refreshTimers[id] = setTimeout(() => {
+                const location = this.settings.locations.find(location => location.id === id);
+                if (location) {
+                    this.refreshLocation(location);
+                }
+            }, delay);
         }
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const { weatherCache, seenAlerts, ruleFiredAt, ...settings }: Partial<WeatherPluginData> = (await this.loadData()) ?? {};
+        this.settings = migrateSettings(settings);
+        setLanguage(this.settings.language);
+        this.weatherCache = weatherCache ?? {};
+        this.seenAlerts = seenAlerts ?? [];
+        this.ruleFiredAt = ruleFiredAt ?? {};
 
         // Schedule a refresh when the settings are loaded
         this.scheduleRefresh();
     }
 
+    // Saves the settings together with the cached responses, dropping the expired ones
+    async savePluginData() {
+        const maxAge = this.settings.cacheMaxAge * 60 * 60 * 1000;
+        for (const [key, cached] of Object.entries(this.weatherCache)) {
+            if (Date.now() - cached.fetchedAt >= maxAge) {
+                delete this.weatherCache[key];
+            }
+        }
+
+        const data: WeatherPluginData = {
+            ...this.settings,
+            weatherCache: this.weatherCache,
+            seenAlerts: this.seenAlerts,
+            ruleFiredAt: this.ruleFiredAt,
+        };
+        await this.saveData(data);
+    }
+
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.savePluginData();
 
         // Schedule a refresh when the settings are saved
         this.scheduleRefresh();
+        this.renderActiveLocation();
     }
 
-    createWeatherHTML(data: WeatherAPIResponse): string {
-        const { current, location, forecast } = data;
-        const { condition, air_quality, uv } = current;
-
-        const aqi = calculateAQI(
-            air_quality.co,
-            air_quality.no2,
-            air_quality.o3,
-            air_quality.so2,
-            air_quality.pm2_5,
-            air_quality.pm10
-        );
-
-        const getAirQualityColor = (index: number): string => {
-            switch (index) {
-                case 1:
-                    return '#008000'; // Green
-                case 2:
-                    return '#FFFF00'; // Yellow
-                case 3:
-                    return '#FFA500'; // Orange
-                case 4:
-                    return '#FF0000'; // Red
-                case 5:
-                    return '#800080'; // Purple
-                case 6:
-                    return '#800000'; // Maroon
-                default:
-                    return '#000000'; // Default color for unknown values
-            }
-        };
+    // Puts the cached data of the active location, or the active note's place, into the store the views render
+    renderActiveLocation() {
+        const location = this.getViewLocation();
+        const provider = getProvider(this.settings.provider);
+        this.updateStatusBar();
 
-        const { emoji: airQualityEmoji, text: airQualityText, mainContributors: unsafeContributors } = describeAirQuality(air_quality);
+        if (!location || !location.query) {
+            this.store.set({ context: null, error: new WeatherError('config', t('error.noLocation')) });
+            return;
+        }
+        if (provider.requiresApiKey && !this.getApiKey()) {
+            this.store.set({ context: null, error: new WeatherError('config', t('error.noApiKey', { provider: provider.name })) });
+            return;
+        }
 
-        const airQualityIndex = air_quality["us-epa-index"];
-        const airQualityColor = getAirQualityColor(airQualityIndex);
+        const cached = this.getCached(location.query);
+        const error = this.fetchErrors[cacheKey(location.query)] ?? null;
 
-        const airQualityDescription = `${airQualityEmoji} ${airQualityText} (AQI: ${aqi}`;
+        if (cached) {
+            const staleSince = this.isStale(location.query, cached) ? cached.fetchedAt : undefined;
+            this.store.set({ context: this.getWeatherContext(cached.data, this.getUnits(location), staleSince), error });
+        } else {
+            this.store.set({ context: null, error });
+        }
+    }
 
-        const airQualityContributors = `${unsafeContributors}`;
+    // Opens the weather view in the right sidebar, or reveals it when it is already open
+    async activateView() {
+        const { workspace } = this.app;
+        let [leaf] = workspace.getLeavesOfType('WeatherView');
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            await leaf.setViewState({ type: 'WeatherView' });
+        }
+        workspace.revealLeaf(leaf);
+    }
 
-        const uvIndexDescription = getUVIndexDescription(uv);
-        const uvIndexText = `${uv} - ${uvIndexDescription}`;
+    // Compact weather of the active location in the status bar, with the current conditions on hover
+    updateStatusBar() {
+        if (!this.settings.showStatusBar) {
+            this.hideStatusPopover();
+            this.statusBarEl?.remove();
+            this.statusBarEl = null;
+            return;
+        }
 
-        const forecastDay1 = forecast?.forecastday[0];
-        const forecastDay2 = forecast?.forecastday[1];
-        const forecastDay3 = forecast?.forecastday[2];
+        if (!this.statusBarEl) {
+            this.statusBarEl = this.addStatusBarItem();
+            this.statusBarEl.addClass('weather-status-bar', 'mod-clickable');
+            this.statusBarEl.onclick = () => this.activateView();
+            this.statusBarEl.onmouseenter = () => this.showStatusPopover();
+            this.statusBarEl.onmouseleave = () => this.hideStatusPopover();
+        }
 
-        let date_day1 = "";
-        let date_day2 = "";
-        let date_day3 = "";
-        if (forecastDay1) {
-            date_day1 = new Date(forecastDay1.date_epoch * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+        const location = this.getViewLocation();
+        const cached = location && this.getCached(location.query);
+        if (!location || !cached) {
+            this.statusBarEl.setText('–');
+            this.statusBarEl.removeClass('is-stale');
+            return;
         }
-        if (forecastDay2) {
-            date_day2 = new Date(forecastDay2.date_epoch * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+        this.statusBarEl.setText(fillWeatherTemplate(this.settings.statusBarTemplate, cached.data, {
+            units: this.getUnits(location),
+            clock: this.settings.clockFormat,
+            aqi: this.getAirQuality(cached.data).value,
+        }));
+        this.statusBarEl.toggleClass('is-stale', this.isStale(location.query, cached));
+    }
+
+    showStatusPopover() {
+        const location = this.getViewLocation();
+        const cached = location && this.getCached(location.query);
+        if (!this.statusBarEl || !location || !cached) return;
+
+        this.hideStatusPopover();
+        const staleSince = this.isStale(location.query, cached) ? cached.fetchedAt : undefined;
+        const sections = this.settings.sections.filter(section => POPOVER_SECTIONS.includes(section));
+
+        this.statusPopoverEl = document.body.createDiv({ cls: 'popover weather-status-popover' });
+        renderWeather(this.statusPopoverEl, this.getWeatherContext(cached.data, this.getUnits(location), staleSince), sections);
+
+        // Above the status bar, right-aligned with the item
+        const rect = this.statusBarEl.getBoundingClientRect();
+        this.statusPopoverEl.style.bottom = `${window.innerHeight - rect.top + 8}px`;
+        this.statusPopoverEl.style.right = `${Math.max(8, window.innerWidth - rect.right)}px`;
+    }
+
+    hideStatusPopover() {
+        this.statusPopoverEl?.remove();
+        this.statusPopoverEl = null;
+    }
+
+    // A saved location by its name, the active one without a name; other names go to the provider as they are
+    resolveLocation(name?: string): { savedLocation?: SavedLocation, query?: string } {
+        const savedLocation = name
+            ? this.settings.locations.find(location => location.name.toLowerCase() === name.toLowerCase())
+            : this.getActiveLocation();
+        return { savedLocation, query: savedLocation?.query ?? name };
+    }
+
+    // Runs provider requests one after the other, with the provider's requestInterval between them like the bulk jobs
+    throttled<T>(request: () => Promise<T>): Promise<T> {
+        const result = this.throttleQueue.then(request);
+        const wait = () => sleep(getProvider(this.settings.provider).requestInterval);
+        this.throttleQueue = result.then(wait, wait);
+        return result;
+    }
+
+    // Reads through getWeather, so scripts share the cache, the pending requests and the refresh rate with the view.
+    // Queries that need a new request are throttled, so a script looping over places can't flood the provider.
+    createApi(): WeatherApi {
+        const getWeather = (location?: string): Promise<WeatherData> => {
+            const { query } = this.resolveLocation(location);
+            if (!query) {
+                return Promise.reject(new WeatherError('config', t('error.noLocation')));
+            }
+            if (this.getFresh(query) || cacheKey(query) in this.pendingRequests) {
+                return this.getWeather(query);
+            }
+            return this.throttled(() => this.getWeather(query));
+        };
+
+        return {
+            getWeather,
+            getCurrent: async (location) => (await getWeather(location)).current,
+            getForecast: async (location, days) => (await getWeather(location)).forecast?.forecastday.slice(0, days) ?? [],
+            getAQI: async (location) => this.getAirQuality(await getWeather(location)),
+            onUpdate: (callback) => {
+                // Workspace only declares its built-in events, custom ones go through Events
+                const ref = (this.app.workspace as Events).on(WEATHER_UPDATED_EVENT, callback);
+                return () => this.app.workspace.offref(ref);
+            },
+        };
+    }
+
+    // Renders a ```weather code block, sharing the cache with the view
+    async renderWeatherBlock(source: string, el: HTMLElement) {
+        const options = parseWeatherBlock(source, this.settings.forecastDays);
+        const { savedLocation, query } = this.resolveLocation(options.location);
+
+        const blockEl = el.createDiv({ cls: 'weather-codeblock' });
+        if (!query) {
+            blockEl.setText(t('view.noLocation'));
+            return;
         }
-        if (forecastDay3) {
-            date_day3 = new Date(forecastDay3.date_epoch * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+        let data: WeatherData;
+        let staleSince: number | undefined;
+        try {
+            data = await this.getWeather(query);
+        } catch (error) {
+            console.error('Error fetching weather data:', error);
+
+            // Fall back to the saved response while offline
+            const cached = this.getCached(query);
+            if (!cached) {
+                blockEl.setText(t('view.loadFailed', { query }));
+                return;
+            }
+            data = cached.data;
+            staleSince = cached.fetchedAt;
         }
 
-        let icon_day1 = forecastDay1?.day.condition.icon || "";
-        let icon_day2 = forecastDay2?.day.condition.icon || "";
-        let icon_day3 = forecastDay3?.day.condition.icon || "";
+        const forecast = data.forecast && { forecastday: data.forecast.forecastday.slice(0, options.days) };
+        renderWeather(blockEl, this.getWeatherContext({ ...data, forecast }, this.getUnits(savedLocation), staleSince), options.sections);
+    }
 
-        let chance_rain_day1 = forecastDay1?.day.daily_chance_of_rain.toString() || "";
-        let chance_rain_day2 = forecastDay2?.day.daily_chance_of_rain.toString() || "";
-        let chance_rain_day3 = forecastDay3?.day.daily_chance_of_rain.toString() || "";
+    getWeatherContext(data: WeatherData, units: UnitSettings, staleSince?: number): WeatherContext {
+        return {
+            data,
+            units,
+            clock: this.settings.clockFormat,
+            airQuality: this.getAirQuality(data),
+            iconStyle: this.settings.iconStyle,
+            staleSince,
+        };
+    }
 
-        if (chance_rain_day1 === "0") {
-            chance_rain_day1 = "-";
-        } else {
-            chance_rain_day1 = chance_rain_day1 + "%";
+    async onunload() {
+        // Clear the timers when unloading the plugin
+        Object.values(this.refreshTimers).forEach(timer => clearTimeout(timer));
+        this.refreshTimers = {};
+        if (this.noteRefreshTimer) {
+            clearTimeout(this.noteRefreshTimer);
         }
+        this.hideStatusPopover();
+        await this.savePluginData();
+    }
+}
 
-        if (chance_rain_day2 === "0") {
-            chance_rain_day2 = "-";
-        } else {
-            chance_rain_day2 = chance_rain_day2 + "%";
+// Searches the provider's places as you type, picking one hands it to onChoose
+class LocationSearchModal extends SuggestModal<Place> {
+    plugin: ObsidianWeatherPlugin;
+    onChoose: (place: Place) => void;
+    searchId = 0;
+
+    constructor(app: App, plugin: ObsidianWeatherPlugin, onChoose: (place: Place) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onChoose = onChoose;
+        this.setPlaceholder(t('search.placeholder'));
+        this.emptyStateText = t('search.noResults');
+    }
+
+    async getSuggestions(query: string): Promise<Place[]> {
+        const trimmed = query.trim();
+        if (trimmed.length < 2) return [];
+
+        // Only search once typing pauses
+        const searchId = ++this.searchId;
+        await sleep(300);
+        if (searchId !== this.searchId) return [];
+
+        // Raw coordinates can always be used as they are, the search adds the places around them
+        const coordinates = parseCoordinates(trimmed);
+        const places: Place[] = coordinates ? [{ name: trimmed, region: '', country: t('search.coordinates'), ...coordinates }] : [];
+
+        const provider = getProvider(this.plugin.settings.provider);
+        const apiKey = this.plugin.getApiKey();
+        if (provider.requiresApiKey && !apiKey) {
+            this.emptyStateText = t('error.noApiKey', { provider: provider.name });
+            return places;
         }
 
-        if (chance_rain_day3 === "0") {
-            chance_rain_day3 = "-";
-        } else {
-            chance_rain_day3 = chance_rain_day3 + "%";
-        }
-
-        const containerEl = document.createElement('div');
-        containerEl.style.textAlign = 'center';
-
-        const locationEl = document.createElement('div');
-        locationEl.className = 'location-name';
-        locationEl.textContent = location.name;
-        containerEl.appendChild(locationEl);
-
-        const flexContainerEl = document.createElement('div');
-        flexContainerEl.style.display = 'flex';
-        flexContainerEl.style.alignItems = 'center';
-        flexContainerEl.style.justifyContent = 'center';
-
-        const iconContainerEl = document.createElement('div');
-        iconContainerEl.style.marginRight = '5px';
-
-        const iconEl = document.createElement('img');
-        iconEl.src = `http:${condition.icon}`;
-        iconEl.alt = condition.text;
-        iconEl.style.width = '100px';
-        iconEl.style.height = '100px';
-        iconContainerEl.appendChild(iconEl);
-        flexContainerEl.appendChild(iconContainerEl);
-
-        const infoContainerEl = document.createElement('div');
-        infoContainerEl.style.textAlign = 'center';
-        infoContainerEl.style.display = 'flex';
-        infoContainerEl.style.flexDirection = 'column';
-
-        const temperatureContainerEl = document.createElement('div');
-        temperatureContainerEl.style.display = 'flex';
-        temperatureContainerEl.style.alignItems = 'center';
-        temperatureContainerEl.style.justifyContent = 'center';
-
-        const temperatureEl = document.createElement('div');
-        const feelsLikeEl = document.createElement('span');
-        feelsLikeEl.className = 'feels-like';
-
-        if (this.settings.temperatureUnit === 'C') {
-            temperatureEl.textContent = `${current.temp_c}°C`;
-            feelsLikeEl.textContent = `${current.feelslike_c}°C`;
-        } else {
-            temperatureEl.textContent = `${current.temp_f}°F`;
-            feelsLikeEl.textContent = `${current.feelslike_f}°F`;
+        try {
+            places.push(...await provider.searchPlaces({ query: trimmed, apiKey, lang: getLanguage() }));
+            this.emptyStateText = t('search.noResults');
+        } catch (error) {
+            const weatherError = WeatherError.from(error);
+            this.emptyStateText = weatherError.kind === 'location' ? t('search.noResults') : weatherError.message;
         }
+        return places;
+    }
 
-        const spaceE1 = document.createElement('span');
-        spaceE1.style.marginLeft = '0.2em';
-        spaceE1.style.marginRight = '0.2em';
-        spaceE1.textContent = '\u00A0'; // Non-breaking space
-
-        const spaceE2 = document.createElement('span');
-        spaceE2.style.marginLeft = '0.2em';
-        spaceE2.style.marginRight = '0.2em';
-        spaceE2.textContent = '\u00A0'; // Non-breaking space
-
-        temperatureEl.appendChild(spaceE1);
-        temperatureEl.appendChild(feelsLikeEl);
-        temperatureContainerEl.appendChild(temperatureEl);
-
-
-        const humidityEl = document.createElement('div');
-        humidityEl.textContent = `Humidity:`;
-
-
-        const humidityValueE1 = document.createElement('span');
-        humidityValueE1.className = `humidity`;
-        humidityValueE1.textContent = `${current.humidity}%`;
-        humidityEl.appendChild(spaceE2);
-        humidityEl.appendChild(humidityValueE1);
-
-        const uvEl = document.createElement('div');
-        uvEl.textContent = `UV: ${uvIndexText}`;
-
-        infoContainerEl.appendChild(temperatureContainerEl);
-        infoContainerEl.appendChild(humidityEl);
-        infoContainerEl.appendChild(uvEl);
-        flexContainerEl.appendChild(infoContainerEl);
-
-        containerEl.appendChild(flexContainerEl);
-
-        const conditionTextEl = document.createElement('div');
-        conditionTextEl.className = 'condition-text';
-        conditionTextEl.textContent = condition.text;
-        containerEl.appendChild(conditionTextEl);
-
-        if (!this.settings.hideAirQuality) {
-
-            const airQualityDescEl = document.createElement('div');
-            airQualityDescEl.style.textAlign = 'center';
-            airQualityDescEl.style.fontSize = '0.9em';
-            airQualityDescEl.textContent = airQualityDescription;
-
-            const circleEl = document.createElement('div');
-            circleEl.style.display = 'inline-block';
-            circleEl.style.width = '10px';
-            circleEl.style.height = '10px';
-            circleEl.style.borderRadius = '50%';
-            circleEl.style.marginLeft = '5px';
-            circleEl.style.marginRight = '5px'; // Added right margin
-            circleEl.style.backgroundColor = airQualityColor;
-
-            airQualityDescEl.appendChild(document.createTextNode(' -'));
-            airQualityDescEl.appendChild(circleEl);
-            airQualityDescEl.appendChild(document.createTextNode(')'));
+    renderSuggestion(place: Place, el: HTMLElement) {
+        el.createDiv({ text: place.name });
+        el.createEl('small', {
+            cls: 'weather-place-detail',
+            text: [place.region, place.country, `${roundTo(place.lat, 2)}, ${roundTo(place.lon, 2)}`].filter(Boolean).join(' · '),
+        });
+    }
 
-            containerEl.appendChild(airQualityDescEl);
+    onChooseSuggestion(place: Place) {
+        this.onChoose(place);
+    }
+}
 
-            const airQualityContributorsEl = document.createElement('div');
-            airQualityContributorsEl.style.color = 'var(--color-accent)';
-            airQualityContributorsEl.style.fontSize = '0.9em';
-            airQualityContributorsEl.style.marginBottom = '10px';
-            airQualityContributorsEl.style.textAlign = 'center';
-            airQualityContributorsEl.textContent = airQualityContributors;
-            containerEl.appendChild(airQualityContributorsEl);
-        }
+// Progress of the history backfill, closing it cancels the run
+class BackfillModal extends Modal {
+    total: number;
+    cancelled = false;
+    statusEl: HTMLElement;
+    progressEl: HTMLProgressElement;
+    logEl: HTMLElement;
+    buttonEl: HTMLButtonElement;
+
+    constructor(app: App, total: number) {
+        super(app);
+        this.total = total;
+    }
 
-        const forecastContainerEl = document.createElement('div');
-        forecastContainerEl.style.display = 'flex';
-        forecastContainerEl.style.justifyContent = 'center';
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(t('backfill.title'));
 
-        const forecastDay1ContainerEl = document.createElement('div');
-        forecastDay1ContainerEl.style.display = 'flex';
-        forecastDay1ContainerEl.style.flexDirection = 'column';
-        forecastDay1ContainerEl.style.alignItems = 'center';
-        forecastDay1ContainerEl.style.marginRight = '10px';
+        this.statusEl = contentEl.createDiv({ text: t('backfill.progress', { done: 0, total: this.total }) });
+        this.progressEl = contentEl.createEl('progress', { cls: 'weather-backfill-progress' });
+        this.progressEl.max = this.total;
+        this.progressEl.value = 0;
+        this.logEl = contentEl.createDiv({ cls: 'weather-backfill-log' });
 
-        const forecastDay1DateEl = document.createElement('div');
-        forecastDay1DateEl.style.fontSize = '0.8em';
-        forecastDay1DateEl.style.marginBottom = '5px';
-        forecastDay1DateEl.textContent = date_day1 === new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) ? 'TODAY' : date_day1;
-        forecastDay1ContainerEl.appendChild(forecastDay1DateEl);
+        this.buttonEl = contentEl.createEl('button', { text: t('backfill.cancel') });
+        this.buttonEl.onclick = () => this.close();
+    }
 
-        const forecastDay1IconEl = document.createElement('img');
-        forecastDay1IconEl.src = `http:${icon_day1}`;
-        forecastDay1IconEl.alt = 'Day 1';
-        forecastDay1IconEl.style.width = '48px';
-        forecastDay1IconEl.style.height = '48px';
-        forecastDay1ContainerEl.appendChild(forecastDay1IconEl);
+    setProgress(done: number, summary: string) {
+        this.progressEl.value = done;
+        this.statusEl.setText(`${t('backfill.progress', { done, total: this.total })} - ${summary}`);
+    }
 
-        const forecastDay1RainEl = document.createElement('div');
-        forecastDay1RainEl.textContent = `${chance_rain_day1}`;
-        forecastDay1ContainerEl.appendChild(forecastDay1RainEl);
+    log(text: string) {
+        this.logEl.createDiv({ text });
+        this.logEl.scrollTop = this.logEl.scrollHeight;
+    }
 
-        forecastContainerEl.appendChild(forecastDay1ContainerEl);
+    finish(text: string) {
+        this.statusEl.setText(text);
+        this.buttonEl.setText(t('backfill.close'));
+    }
 
-        const forecastDay2ContainerEl = document.createElement('div');
-        forecastDay2ContainerEl.style.display = 'flex';
-        forecastDay2ContainerEl.style.flexDirection = 'column';
-        forecastDay2ContainerEl.style.alignItems = 'center';
-        forecastDay2ContainerEl.style.marginRight = '10px';
+    onClose() {
+        this.cancelled = true;
+        this.contentEl.empty();
+    }
+}
+
+// Asks for the place and dates of a trip
+class TripModal extends Modal {
+    plugin: ObsidianWeatherPlugin;
+    editor: Editor;
 
-        const forecastDay2DateEl = document.createElement('div');
-        forecastDay2DateEl.style.fontSize = '0.8em';
-        forecastDay2DateEl.style.marginBottom = '5px';
-        forecastDay2DateEl.textContent = date_day2;
-        forecastDay2ContainerEl.appendChild(forecastDay2DateEl);
+    constructor(app: App, plugin: ObsidianWeatherPlugin, editor: Editor) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+    }
 
-        const forecastDay2IconEl = document.createElement('img');
-        forecastDay2IconEl.src = `http:${icon_day2}`;
-        forecastDay2IconEl.alt = 'Day 2';
-        forecastDay2IconEl.style.width = '48px';
-        forecastDay2IconEl.style.height = '48px';
-        forecastDay2ContainerEl.appendChild(forecastDay2IconEl);
-
-        const forecastDay2RainEl = document.createElement('div');
-        forecastDay2RainEl.textContent = `${chance_rain_day2}`;
-        forecastDay2ContainerEl.appendChild(forecastDay2RainEl);
-
-        forecastContainerEl.appendChild(forecastDay2ContainerEl);
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(t('trip.title'));
 
-        const forecastDay3ContainerEl = document.createElement('div');
-        forecastDay3ContainerEl.style.display = 'flex';
-        forecastDay3ContainerEl.style.flexDirection = 'column';
-        forecastDay3ContainerEl.style.alignItems = 'center';
-
-        const forecastDay3DateEl = document.createElement('div');
-        forecastDay3DateEl.style.fontSize = '0.8em';
-        forecastDay3DateEl.style.marginBottom = '5px';
-        forecastDay3DateEl.textContent = date_day3;
-        forecastDay3ContainerEl.appendChild(forecastDay3DateEl);
-
-        const forecastDay3IconEl = document.createElement('img');
-        forecastDay3IconEl.src = `http:${icon_day3}`;
-        forecastDay3IconEl.alt = 'Day 3';
-        forecastDay3IconEl.style.width = '48px';
-        forecastDay3IconEl.style.height = '48px';
-        forecastDay3ContainerEl.appendChild(forecastDay3IconEl);
-
-        const forecastDay3RainEl = document.createElement('div');
-        forecastDay3RainEl.textContent = `${chance_rain_day3}`;
-        forecastDay3ContainerEl.appendChild(forecastDay3RainEl);
-
-        forecastContainerEl.appendChild(forecastDay3ContainerEl);
-
-        containerEl.appendChild(forecastContainerEl);
-
-        const localTimeEl = document.createElement('div');
-        localTimeEl.className = 'update-time';
-        localTimeEl.textContent = location.localtime;
-        containerEl.appendChild(localTimeEl);
+        let location = this.plugin.getViewLocation()?.name ?? '';
+        let start = moment().add(1, 'day').format('YYYY-MM-DD');
+        let end = moment().add(7, 'day').format('YYYY-MM-DD');
 
-        return containerEl.outerHTML;
+        new Setting(contentEl)
+            .setName(t('trip.location'))
+            .setDesc(t('trip.locationDesc'))
+            .addText(text => text
+                .setValue(location)
+                .onChange(value => location = value.trim()));
 
+        new Setting(contentEl)
+            .setName(t('trip.start'))
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(start).onChange(value => start = value);
+            });
+
+        new Setting(contentEl)
+            .setName(t('trip.end'))
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(end).onChange(value => end = value);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('trip.insert'))
+                .setCta()
+                .onClick(() => {
+                    const error = this.validate(location, start, end);
+                    if (error) {
+                        new Notice(error);
+                        return;
+                    }
+                    this.close();
+                    this.plugin.planTrip(this.editor, location, start, end);
+                }));
     }
 
-    // Function to update the weather leaf
-    updateWeatherLeaf(weatherHTML: string) {
-        const leaves = this.app.workspace.getLeavesOfType('WeatherView');
-        if (leaves.length) {
-            const view = leaves[0].view as WeatherView;
-            // view.contentEl.innerHTML = weatherHTML;
-            view.setContent(weatherHTML);
-        }
+    validate(location: string, start: string, end: string): string | null {
+        if (!location) return t('trip.noLocation');
+
+        const startDate = moment(start, 'YYYY-MM-DD', true);
+        const endDate = moment(end, 'YYYY-MM-DD', true);
+        if (!startDate.isValid() || !endDate.isValid() || endDate.isBefore(startDate)) return t('trip.invalidDates');
+        if (startDate.isBefore(moment(), 'day')) return t('trip.pastDates');
+        if (endDate.diff(startDate, 'days') >= MAX_TRIP_DAYS) return t('trip.tooLong', { days: MAX_TRIP_DAYS });
+        return null;
     }
 
-    async onunload() {
-        if (this.refreshTimer) {
-            clearTimeout(this.refreshTimer); // Clear the timer when unloading the plugin
-        }
-        await this.saveData(this.settings);
+    onClose() {
+        this.contentEl.empty();
     }
 }
 
@@ -706,89 +1666,540 @@ class WeatherSettingTab extends PluginSettingTab {
         this.plugin = plugin;
     }
 
+    // Shown sections in their order with buttons to move them, then the hidden ones
+    displaySections(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: t('settings.sections') });
+        containerEl.createEl('p', { cls: 'setting-item-description', text: t('settings.sectionsDesc') });
+
+        const { sections } = this.plugin.settings;
+        const hidden = ALL_SECTIONS.filter(section => !sections.includes(section));
+        const save = async (updated: WeatherSection[]) => {
+            this.plugin.settings.sections = updated;
+            await this.plugin.saveSettings();
+            this.display();
+        };
+        const move = (index: number, offset: number) => {
+            const updated = sections.slice();
+            [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+            return save(updated);
+        };
+
+        [...sections, ...hidden].forEach((section, index) => {
+            const shown = index < sections.length;
+            const setting = new Setting(containerEl)
+                .setName(t(SECTION_NAMES[section]))
+                .setClass('weather-section-setting');
+            if (shown) {
+                setting
+                    .addExtraButton(button => button
+                        .setIcon('arrow-up')
+                        .setTooltip(t('settings.moveUp'))
+                        .setDisabled(index === 0)
+                        .onClick(() => move(index, -1)))
+                    .addExtraButton(button => button
+                        .setIcon('arrow-down')
+                        .setTooltip(t('settings.moveDown'))
+                        .setDisabled(index === sections.length - 1)
+                        .onClick(() => move(index, 1)));
+            }
+            setting.addToggle(toggle => toggle
+                .setValue(shown)
+                .onChange(value => save(value
+                    ? [...sections, section]
+                    : sections.filter(other => other !== section))));
+        });
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
 
         new Setting(containerEl)
-            .setName('Temperature Unit')
-            .setDesc('Toggle ON for Imperial')
-            .addToggle((toggle) => {
-                toggle.setValue(this.plugin.settings.temperatureUnit === 'F');
-                toggle.onChange(async (value) => {
-                    this.plugin.settings.temperatureUnit = value ? 'F' : 'C';
+            .setName(t('settings.language'))
+            .setDesc(t('settings.languageDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', t('settings.automatic'))
+                .addOptions(LANGUAGES)
+                .setValue(this.plugin.settings.language)
+                .onChange(async (value) => {
+                    this.plugin.settings.language = value;
+                    setLanguage(value);
+                    this.plugin.weatherCache = {}; // Cached responses have the old language's condition texts
                     await this.plugin.saveSettings();
                     this.plugin.refreshWeather();
-                });
+                    this.display();
+                }));
+
+        const units = this.plugin.settings.units;
+        const preset = (Object.keys(UNIT_PRESETS) as UnitPreset[])
+            .find(name => (Object.keys(units) as (keyof UnitSettings)[]).every(unit => UNIT_PRESETS[name][unit] === units[unit]));
+        new Setting(containerEl)
+            .setName(t('settings.units'))
+            .setDesc(t('settings.unitsDesc'))
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('metric', t('settings.metric'))
+                    .addOption('imperial', t('settings.imperial'))
+                    .addOption('uk', t('settings.uk'));
+                if (!preset) dropdown.addOption('custom', t('settings.custom'));
+                dropdown
+                    .setValue(preset ?? 'custom')
+                    .onChange(async (value) => {
+                        if (value === 'custom') return;
+                        this.plugin.settings.units = { ...UNIT_PRESETS[value as UnitPreset] };
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        const unitNames: Record<keyof UnitSettings, TranslationKey> = {
+            temperature: 'settings.temperature',
+            wind: 'settings.windSpeed',
+            precipitation: 'settings.precipitation',
+            pressure: 'settings.pressure',
+            distance: 'settings.visibility',
+        };
+        (Object.keys(unitNames) as (keyof UnitSettings)[]).forEach(unit => {
+            new Setting(containerEl)
+                .setName(t(unitNames[unit]))
+                .addDropdown(dropdown => dropdown
+                    .addOptions(UNIT_LABELS[unit])
+                    .setValue(units[unit])
+                    .onChange(async (value) => {
+                        this.plugin.settings.units = { ...this.plugin.settings.units, [unit]: value };
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName(t('settings.timeFormat'))
+            .setDesc(t('settings.timeFormatDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', t('settings.automatic'))
+                .addOption('24h', t('settings.24h'))
+                .addOption('12h', t('settings.12h'))
+                .setValue(this.plugin.settings.clockFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.clockFormat = value as ClockFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.aqiStandard'))
+            .setDesc(t('settings.aqiStandardDesc'))
+            .addDropdown(dropdown => {
+                Object.entries(AQI_STANDARDS).forEach(([id, standard]) => dropdown.addOption(id, standard.name));
+                dropdown
+                    .setValue(this.plugin.settings.aqiStandard)
+                    .onChange(async (value) => {
+                        this.plugin.settings.aqiStandard = value as AqiStandard;
+                        await this.plugin.saveSettings();
+                    });
             });
 
         new Setting(containerEl)
-            .setName('Hide Air Quality')
-            .setDesc('Toggle to hide the air quality information')
+            .setName(t('settings.iconStyle'))
+            .setDesc(t('settings.iconStyleDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('bundled', t('settings.bundledIcons'))
+                .addOption('provider', t('settings.providerIcons'))
+                .setValue(this.plugin.settings.iconStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.iconStyle = value as IconStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displaySections(containerEl);
+
+        containerEl.createEl('h3', { text: t('settings.locations') });
+
+        this.plugin.settings.locations.forEach((location, index) => {
+            const placeText = location.place
+                ? `${describePlace(location.place)} (${location.query})`
+                : location.query || t('settings.noPlace');
+            new Setting(containerEl)
+                .setName(t('settings.location', { number: index + 1 }))
+                .setDesc(`${t('settings.locationDesc')}. ${placeText}`)
+                .addText(text => text
+                    .setPlaceholder(t('settings.name'))
+                    .setValue(location.name)
+                    .onChange(async (value) => {
+                        location.name = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setButtonText(t('settings.searchLocation'))
+                    .onClick(() => {
+                        new LocationSearchModal(this.app, this.plugin, async (place) => {
+                            // Coordinates stay the same when the provider renames or re-ranks places
+                            location.query = `${roundTo(place.lat, 4)},${roundTo(place.lon, 4)}`;
+                            location.place = place;
+                            if (!location.name) {
+                                location.name = place.name;
+                            }
+                            await this.plugin.saveSettings();
+                            this.plugin.refreshLocation(location);
+                            this.display();
+                        }).open();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('', t('settings.defaultUnit'))
+                    .addOption('C', '°C')
+                    .addOption('F', '°F')
+                    .setValue(location.temperatureUnit ?? '')
+                    .onChange(async (value) => {
+                        if (value === 'C' || value === 'F') {
+                            location.temperatureUnit = value;
+                        } else {
+                            delete location.temperatureUnit;
+                        }
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(t('settings.removeLocation'))
+                    .onClick(async () => {
+                        this.plugin.settings.locations.splice(index, 1);
+                        if (this.plugin.settings.activeLocationId === location.id) {
+                            const [first] = this.plugin.settings.locations;
+                            this.plugin.settings.activeLocationId = first ? first.id : '';
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText(t('settings.addLocation'))
+                .onClick(async () => {
+                    const location: SavedLocation = { id: createId(), name: '', query: '' };
+                    this.plugin.settings.locations.push(location);
+                    if (!this.plugin.settings.activeLocationId) {
+                        this.plugin.settings.activeLocationId = location.id;
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.followActiveNote'))
+            .setDesc(t('settings.followActiveNoteDesc'))
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.hideAirQuality)
+                .setValue(this.plugin.settings.followActiveNote)
                 .onChange(async (value) => {
-                    this.plugin.settings.hideAirQuality = value;
+                    this.plugin.settings.followActiveNote = value;
                     await this.plugin.saveSettings();
-                    this.plugin.refreshWeather(); // Refresh the weather data
-                })
-            );
+                    this.plugin.updateNoteLocation(this.app.workspace.getActiveFile());
+                }));
 
+        new Setting(containerEl)
+            .setName(t('settings.noteLocationProperty'))
+            .setDesc(t('settings.noteLocationPropertyDesc'))
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.noteLocationProperty)
+                .setValue(this.plugin.settings.noteLocationProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.noteLocationProperty = value.trim() || DEFAULT_SETTINGS.noteLocationProperty;
+                    await this.plugin.saveSettings();
+                    this.plugin.updateNoteLocation(this.app.workspace.getActiveFile());
+                }));
 
         new Setting(containerEl)
-            .setName('Location')
-            .setDesc('Set your location')
-            .addText(text => {
-                const inputEl = text
-                    .setPlaceholder('Enter your location')
-                    .setValue(this.plugin.settings.location)
-                    .inputEl;
-
-                // Add event listener for focus
-                inputEl.addEventListener('focus', (event: FocusEvent) => {
-                    (event.target as HTMLInputElement).style.borderColor = 'red';
-                });
+            .setName(t('settings.provider'))
+            .setDesc(t('settings.providerDesc'))
+            .addDropdown(dropdown => {
+                Object.values(PROVIDERS).forEach(provider => dropdown.addOption(provider.id, provider.name));
+                dropdown
+                    .setValue(this.plugin.settings.provider)
+                    .onChange(async (value) => {
+                        this.plugin.settings.provider = value as ProviderId;
+                        this.plugin.settings.forecastDays = Math.min(this.plugin.settings.forecastDays, getProvider(value as ProviderId).maxForecastDays);
+                        this.plugin.weatherCache = {};
+                        this.plugin.fetchErrors = {};
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshWeather();
+                        this.display(); // Show the API key field of the new provider
+                    });
+            });
 
-                // Add event listener for keydown
-                inputEl.addEventListener('keydown', async (event: KeyboardEvent) => {
-                    if (event.key === 'Enter') {
-                        this.plugin.settings.location = (event.target as HTMLInputElement).value;
+        if (this.plugin.settings.provider === 'weatherapi') {
+            new Setting(containerEl)
+                .setName(t('settings.apiKey'))
+                .setDesc(t('settings.apiKeyDesc', { site: 'weatherapi.com' }))
+                .addText(text => text
+                    .setPlaceholder(t('settings.enterApiKey'))
+                    .setValue(this.plugin.settings.apiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.apiKey = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshWeather(); // Add this line
+                    }));
+        } else if (this.plugin.settings.provider === 'openweathermap') {
+            new Setting(containerEl)
+                .setName(t('settings.apiKey'))
+                .setDesc(t('settings.apiKeyDesc', { site: 'openweathermap.org' }))
+                .addText(text => text
+                    .setPlaceholder(t('settings.enterApiKey'))
+                    .setValue(this.plugin.settings.openWeatherMapApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openWeatherMapApiKey = value;
                         await this.plugin.saveSettings();
                         this.plugin.refreshWeather();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName(t('settings.refreshRate'))
+            .setDesc(t('settings.refreshRateDesc'))
+            .addText(text => text
+                .setPlaceholder(t('settings.enterRefreshRate'))
+                .setValue(this.plugin.settings.refreshRate.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.refreshRate = Number(value);
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshWeather(); // Add this line
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.forecastDays'))
+            .setDesc(t('settings.forecastDaysDesc', { max: getProvider(this.plugin.settings.provider).maxForecastDays }))
+            .addSlider(slider => slider
+                .setLimits(1, getProvider(this.plugin.settings.provider).maxForecastDays, 1)
+                .setValue(this.plugin.settings.forecastDays)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.forecastDays = value;
+                    this.plugin.weatherCache = {}; // Cached responses have the old number of days
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshWeather();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.alertNotifications'))
+            .setDesc(t('settings.alertNotificationsDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.alertNotifications)
+                .onChange(async (value) => {
+                    this.plugin.settings.alertNotifications = value;
+                    await this.plugin.saveSettings();
+                }));
 
-                        // Reset border color after pressing 'Enter'
-                        (event.target as HTMLInputElement).style.borderColor = '';
+        containerEl.createEl('h3', { text: t('settings.rules') });
+        containerEl.createEl('p', { cls: 'setting-item-description', text: t('settings.rulesDesc') });
+
+        this.plugin.settings.rules.forEach((rule, index) => {
+            const metric = RULE_METRICS[rule.metric];
+            const setting = new Setting(containerEl)
+                .setName(describeRule(rule, this.plugin.settings.units))
+                .addToggle(toggle => toggle
+                    .setTooltip(t('settings.enabled'))
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        rule.enabled = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => {
+                    (Object.keys(RULE_METRICS) as RuleMetric[]).forEach(id => dropdown.addOption(id, metricName(id)));
+                    dropdown
+                        .setValue(rule.metric)
+                        .onChange(async (value) => {
+                            rule.metric = value as RuleMetric;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                });
 
-                        // Remove focus from the text field
-                        inputEl.blur();
+            if (metric.scope === 'day') {
+                setting.addDropdown(dropdown => {
+                    // A day past Forecast Days stays selectable, the rule just can't fire until the forecast reaches it
+                    const { forecastDays } = this.plugin.settings;
+                    for (let day = 0; day < Math.max(forecastDays, rule.day + 1); day++) {
+                        const name = dayName(day);
+                        const label = name.charAt(0).toUpperCase() + name.slice(1);
+                        dropdown.addOption(day.toString(), day < forecastDays ? label : t('settings.ruleDayPastForecast', { day: label }));
                     }
+                    dropdown
+                        .setValue(rule.day.toString())
+                        .onChange(async (value) => {
+                            rule.day = Number(value);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
                 });
+            }
 
-                return inputEl;
-            });
+            setting
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ '>': '>', '>=': '≥', '<': '<', '<=': '≤' })
+                    .setValue(rule.operator)
+                    .onChange(async (value) => {
+                        rule.operator = value as RuleOperator;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => {
+                    text
+                        .setValue(rule.value.toString())
+                        .onChange(async (value) => {
+                            if (value.trim() !== '' && !isNaN(Number(value))) {
+                                rule.value = Number(value);
+                                await this.plugin.saveSettings();
+                            }
+                        });
+                    text.inputEl.type = 'number';
+                    text.inputEl.addClass('weather-rule-value');
+                })
+                .addText(text => text
+                    .setPlaceholder(t('settings.appendToNote'))
+                    .setValue(rule.note)
+                    .onChange(async (value) => {
+                        rule.note = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(t('settings.removeRule'))
+                    .onClick(async () => {
+                        this.plugin.settings.rules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
 
         new Setting(containerEl)
-            .setName('API Key')
-            .setDesc('Set your weatherapi.com API Key')
+            .addButton(button => button
+                .setButtonText(t('settings.addRule'))
+                .onClick(async () => {
+                    this.plugin.settings.rules.push({
+                        id: createId(),
+                        enabled: true,
+                        metric: 'chance_of_rain',
+                        operator: '>',
+                        value: 60,
+                        day: Math.min(1, this.plugin.settings.forecastDays - 1),
+                        note: '',
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.ruleCooldown'))
+            .setDesc(t('settings.ruleCooldownDesc'))
+            .addText(text => text
+                .setPlaceholder('12')
+                .setValue(this.plugin.settings.ruleCooldown.toString())
+                .onChange(async (value) => {
+                    const hours = Number(value);
+                    if (value.trim() !== '' && !isNaN(hours) && hours >= 0) {
+                        this.plugin.settings.ruleCooldown = hours;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.offlineCache'))
+            .setDesc(t('settings.offlineCacheDesc'))
             .addText(text => text
-                .setPlaceholder('Enter your API Key')
-                .setValue(this.plugin.settings.apiKey)
+                .setPlaceholder('6')
+                .setValue(this.plugin.settings.cacheMaxAge.toString())
                 .onChange(async (value) => {
-                    this.plugin.settings.apiKey = value;
+                    const hours = Number(value);
+                    if (!isNaN(hours) && hours > 0) {
+                        this.plugin.settings.cacheMaxAge = hours;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.insertTemplate'))
+            .setDesc(t('settings.insertTemplateDesc', {
+                placeholders: '{{temp}}, {{feelslike}}, {{high}}, {{low}}, {{condition}}, {{icon}}, {{humidity}}, {{wind}}, {{winddir}}, {{precip}}, '
+                    + '{{pressure}}, {{visibility}}, {{rain}}, {{uv}}, {{aqi}}, {{sunrise}}, {{sunset}}, {{location}}, {{date}}, {{time}}',
+                examples: '{{temp|F}}, {{wind|knots}}, {{pressure|inHg}}, {{sunrise|HH:mm}}, {{date|dddd D MMMM}}, {{location|full}}',
+            }))
+            .addTextArea(text => text
+                .setValue(this.plugin.settings.insertTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.insertTemplate = value;
                     await this.plugin.saveSettings();
-                    this.plugin.refreshWeather(); // Add this line
                 }));
 
         new Setting(containerEl)
-            .setName('Refresh Rate')
-            .setDesc('Set the refresh rate in minutes. Enter 999 to disable the refresh.')
+            .setName(t('settings.showStatusBar'))
+            .setDesc(t('settings.showStatusBarDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showStatusBar)
+                .onChange(async (value) => {
+                    this.plugin.settings.showStatusBar = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.statusBarTemplate'))
+            .setDesc(t('settings.statusBarTemplateDesc'))
             .addText(text => text
-                .setPlaceholder('Enter the refresh rate')
-                .setValue(this.plugin.settings.refreshRate.toString())
+                .setPlaceholder(DEFAULT_SETTINGS.statusBarTemplate)
+                .setValue(this.plugin.settings.statusBarTemplate)
                 .onChange(async (value) => {
-                    this.plugin.settings.refreshRate = Number(value);
+                    this.plugin.settings.statusBarTemplate = value || DEFAULT_SETTINGS.statusBarTemplate;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.recordHistory'))
+            .setDesc(t('settings.recordHistoryDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.recordHistory)
+                .onChange(async (value) => {
+                    this.plugin.settings.recordHistory = value;
                     await this.plugin.saveSettings();
-                    this.plugin.refreshWeather(); // Add this line
                 }));
+
+        new Setting(containerEl)
+            .setName(t('settings.historyFile'))
+            .setDesc(t('settings.historyFileDesc'))
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.historyFile)
+                .setValue(this.plugin.settings.historyFile)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyFile = value.trim() || DEFAULT_SETTINGS.historyFile;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName(t('settings.stampDailyNotes'))
+            .setDesc(t('settings.stampDailyNotesDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.stampDailyNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.stampDailyNotes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const propertyNames: [keyof FrontmatterKeys, TranslationKey][] = [
+            ['temp', 'settings.temperature'],
+            ['high', 'settings.highTemperature'],
+            ['low', 'settings.lowTemperature'],
+            ['condition', 'settings.condition'],
+            ['aqi', 'settings.airQualityIndex'],
+            ['precip', 'settings.precipitation'],
+            ['sunrise', 'settings.sunrise'],
+            ['sunset', 'settings.sunset'],
+            ['location', 'settings.locationName'],
+        ];
+        propertyNames.forEach(([key, name]) => {
+            new Setting(containerEl)
+                .setName(t('settings.property', { name: t(name) }))
+                .setDesc(t('settings.propertyDesc'))
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.frontmatterKeys[key])
+                    .setValue(this.plugin.settings.frontmatterKeys[key])
+                    .onChange(async (value) => {
+                        this.plugin.settings.frontmatterKeys[key] = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        });
     }
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { AqiStandard, calculateAirQuality, toPpb } from './airQuality';
+import { AirQuality } from './types';
+
+// The providers report µg/m³, the reference examples are given in ppb or ppm at 25 °C
+const fromPpb = (ppb: number, molarMass: number): number => ppb * molarMass / 24.45;
+
+const airQuality = (values: Partial<AirQuality>): AirQuality => ({
+    co: NaN, no2: NaN, o3: NaN, so2: NaN, pm2_5: NaN, pm10: NaN, ...values,
+});
+
+const subIndex = (standard: AqiStandard, values: Partial<AirQuality>, pollutant: string): number | undefined =>
+    calculateAirQuality(airQuality(values), standard).pollutants.find(index => index.pollutant === pollutant)?.value;
+
+describe('toPpb', () => {
+    // Conversion factors at 25 °C and 1 atm, as published by the EPA and Environment Canada
+    it('matches the published µg/m³ per ppb factors', () => {
+        expect(toPpb('o3', 1.96)).toBeCloseTo(1, 2);
+        expect(toPpb('no2', 1.88)).toBeCloseTo(1, 2);
+        expect(toPpb('so2', 2.62)).toBeCloseTo(1, 2);
+        expect(toPpb('co', 1145) / 1000).toBeCloseTo(1, 2);
+    });
+
+    it('leaves particulate matter in µg/m³', () => {
+        expect(toPpb('pm2_5', 12.3)).toBe(12.3);
+        expect(toPpb('pm10', 40)).toBe(40);
+    });
+});
+
+describe('US EPA AQI', () => {
+    // Worked examples of the EPA's Technical Assistance Document for the Reporting of Daily Air Quality
+    it('computes the PM2.5 example, 35.9 µg/m³ is 102', () => {
+        expect(subIndex('us-epa', { pm2_5: 35.9 }, 'pm2_5')).toBe(102);
+    });
+
+    it('computes the ozone example, 0.078 ppm is 126', () => {
+        expect(subIndex('us-epa', { o3: fromPpb(78.4, 48.00) }, 'o3')).toBe(126);
+    });
+
+    it('computes the CO example, 8.4 ppm is 90', () => {
+        expect(subIndex('us-epa', { co: fromPpb(8450, 28.01) }, 'co')).toBe(90);
+    });
+
+    it('reports the highest sub-index as the AQI', () => {
+        const index = calculateAirQuality(airQuality({ pm2_5: 35.9, co: fromPpb(8450, 28.01) }), 'us-epa');
+        expect(index.value).toBe(102);
+        expect(index.level?.text).toBe('airQuality.sensitive');
+        expect(index.pollutants.map(pollutant => pollutant.pollutant)).toEqual(['pm2_5', 'co']);
+    });
+
+    it('stops ozone at the top of the 8-hour table', () => {
+        expect(subIndex('us-epa', { o3: fromPpb(200, 48.00) }, 'o3')).toBe(300);
+        expect(subIndex('us-epa', { o3: fromPpb(400, 48.00) }, 'o3')).toBe(300);
+    });
+});
+
+describe('UK DAQI', () => {
+    // Bands of the Defra index, https://uk-air.defra.gov.uk/air-pollution/daqi
+    it('puts concentrations into the published bands', () => {
+        expect(subIndex('uk-daqi', { pm2_5: 11 }, 'pm2_5')).toBe(1);
+        expect(subIndex('uk-daqi', { pm2_5: 40 }, 'pm2_5')).toBe(4);
+        expect(subIndex('uk-daqi', { o3: 101 }, 'o3')).toBe(4);
+        expect(subIndex('uk-daqi', { pm10: 50 }, 'pm10')).toBe(3);
+        expect(subIndex('uk-daqi', { no2: 601 }, 'no2')).toBe(10);
+    });
+
+    it('ignores carbon monoxide, which the index does not cover', () => {
+        expect(subIndex('uk-daqi', { co: 5000 }, 'co')).toBeUndefined();
+    });
+
+    it('reports the highest band with its level', () => {
+        const index = calculateAirQuality(airQuality({ pm2_5: 40, pm10: 50 }), 'uk-daqi');
+        expect(index.value).toBe(4);
+        expect(index.level?.text).toBe('airQuality.moderate');
+    });
+});
+
+describe('European CAQI', () => {
+    // Hourly background grid of the CiteairII index
+    it('interpolates within the grid', () => {
+        expect(subIndex('eu-caqi', { pm10: 50 }, 'pm10')).toBe(50);
+        expect(subIndex('eu-caqi', { no2: 100 }, 'no2')).toBe(50);
+        expect(subIndex('eu-caqi', { pm2_5: 55 }, 'pm2_5')).toBe(75);
+        expect(subIndex('eu-caqi', { o3: 90 }, 'o3')).toBe(38);
+    });
+
+    it('keeps rising above the grid', () => {
+        expect(subIndex('eu-caqi', { pm10: 270 }, 'pm10')).toBe(125);
+    });
+});
+
+describe('Canada AQHI', () => {
+    // AQHI = 10 / 10.4 × 100 × (e^(0.000871 NO₂) - 1 + e^(0.000537 O₃) - 1 + e^(0.000487 PM2.5) - 1)
+    it('sums the pollutant terms of the published formula', () => {
+        const index = calculateAirQuality(airQuality({ no2: fromPpb(20, 46.01), o3: fromPpb(30, 48.00), pm2_5: 10 }), 'ca-aqhi');
+        expect(index.value).toBe(4);
+        expect(index.level?.text).toBe('airQuality.moderateRisk');
+    });
+
+    it('writes values above 10 as 10+', () => {
+        const index = calculateAirQuality(airQuality({ no2: fromPpb(60, 46.01), o3: fromPpb(80, 48.00), pm2_5: 150 }), 'ca-aqhi');
+        expect(index.value).toBeGreaterThan(10);
+        expect(index.label).toBe('10+');
+    });
+});
+
+it('falls back to the US EPA AQI for an unknown standard', () => {
+    const index = calculateAirQuality(airQuality({ pm2_5: 35.9 }), 'unknown' as AqiStandard);
+    expect(index.standard).toBe('us-epa');
+    expect(index.value).toBe(102);
+});
+
+it('has no index without measurements, rather than a clean 0', () => {
+    [calculateAirQuality(undefined, 'uk-daqi'), calculateAirQuality(airQuality({}), 'us-epa')].forEach(index => {
+        expect(index.value).toBeUndefined();
+        expect(index.level).toBeUndefined();
+        expect(index.label).toBe('');
+        expect(index.pollutants).toEqual([]);
+    });
+});
@@ -0,0 +1,238 @@
+import { AirQuality } from './types';
+import { TranslationKey } from './i18n';
+
+export type AqiStandard = 'us-epa' | 'uk-daqi' | 'eu-caqi' | 'ca-aqhi';
+
+export type Pollutant = 'co' | 'no2' | 'o3' | 'so2' | 'pm2_5' | 'pm10';
+
+export const POLLUTANT_NAMES: Record<Pollutant, string> = {
+    co: 'CO',
+    no2: 'NO₂',
+    o3: 'O₃',
+    so2: 'SO₂',
+    pm2_5: 'PM2.5',
+    pm10: 'PM10',
+};
+
+export interface AqiLevel {
+    max: number; // highest index value of the level
+    text: TranslationKey;
+    emoji: string;
+    color: string;
+}
+
+export interface PollutantIndex {
+    pollutant: Pollutant;
+    concentration: number; // µg/m³, as the providers report it
+    value: number; // sub-index in the chosen standard
+    level: AqiLevel;
+}
+
+export interface AirQualityIndex {
+    standard: AqiStandard;
+    value: number | undefined; // undefined when nothing was measured, which isn't clean air
+    label: string; // the value as the standard writes it, e.g. "10+" for the AQHI, empty without a value
+    level: AqiLevel | undefined;
+    pollutants: PollutantIndex[]; // the pollutants the standard covers, worst first
+}
+
+interface StandardDefinition {
+    name: string;
+    shortName: string;
+    levels: AqiLevel[];
+    subIndex(pollutant: Pollutant, concentration: number): number | undefined; // undefined when the standard doesn't use the pollutant
+    combine(subIndices: number[]): number;
+    label?(value: number): string;
+}
+
+// Molar masses in g/mol, to turn µg/m³ into ppb at 25 °C and 1 atm like the US and Canadian standards expect
+const MOLAR_MASS: Partial<Record<Pollutant, number>> = { co: 28.01, no2: 46.01, o3: 48.00, so2: 64.07 };
+const MOLAR_VOLUME = 24.45;
+
+export function toPpb(pollutant: Pollutant, microgramsPerCubicMetre: number): number {
+    const molarMass = MOLAR_MASS[pollutant];
+    return molarMass ? microgramsPerCubicMetre * MOLAR_VOLUME / molarMass : microgramsPerCubicMetre;
+}
+
+const truncate = (value: number, decimals: number): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.floor(value * factor) / factor;
+};
+
+// Linear interpolation between the breakpoints of the band the concentration falls into
+function interpolate(concentration: number, breakpoints: [number, number, number, number][]): number {
+    const band = breakpoints.find(([, high]) => concentration <= high) ?? breakpoints[breakpoints.length - 1];
+    const [concentrationLow, concentrationHigh, indexLow, indexHigh] = band;
+    const clamped = Math.min(concentration, concentrationHigh);
+    return Math.round((indexHigh - indexLow) / (concentrationHigh - concentrationLow) * (clamped - concentrationLow) + indexLow);
+}
+
+// US EPA breakpoints (2024 revision) as [concentration low, concentration high, index low, index high].
+// Concentrations are truncated to the precision of the table before the lookup, which closes the gaps between bands.
+const EPA_BREAKPOINTS: Partial<Record<Pollutant, { decimals: number, toUnit(value: number): number, breakpoints: [number, number, number, number][] }>> = {
+    pm2_5: {
+        decimals: 1,
+        toUnit: value => value,
+        breakpoints: [[0, 9.0, 0, 50], [9.1, 35.4, 51, 100], [35.5, 55.4, 101, 150], [55.5, 125.4, 151, 200], [125.5, 225.4, 201, 300], [225.5, 325.4, 301, 500]],
+    },
+    pm10: {
+        decimals: 0,
+        toUnit: value => value,
+        breakpoints: [[0, 54, 0, 50], [55, 154, 51, 100], [155, 254, 101, 150], [255, 354, 151, 200], [355, 424, 201, 300], [425, 604, 301, 500]],
+    },
+    o3: {
+        decimals: 0, // ppb, 8-hour table; it ends at 200 ppb, higher values stay at its top like the EPA's own 8-hour index
+        toUnit: value => toPpb('o3', value),
+        breakpoints: [[0, 54, 0, 50], [55, 70, 51, 100], [71, 85, 101, 150], [86, 105, 151, 200], [106, 200, 201, 300]],
+    },
+    co: {
+        decimals: 1, // ppm
+        toUnit: value => toPpb('co', value) / 1000,
+        breakpoints: [[0, 4.4, 0, 50], [4.5, 9.4, 51, 100], [9.5, 12.4, 101, 150], [12.5, 15.4, 151, 200], [15.5, 30.4, 201, 300], [30.5, 50.4, 301, 500]],
+    },
+    so2: {
+        decimals: 0, // ppb
+        toUnit: value => toPpb('so2', value),
+        breakpoints: [[0, 35, 0, 50], [36, 75, 51, 100], [76, 185, 101, 150], [186, 304, 151, 200], [305, 604, 201, 300], [605, 1004, 301, 500]],
+    },
+    no2: {
+        decimals: 0, // ppb
+        toUnit: value => toPpb('no2', value),
+        breakpoints: [[0, 53, 0, 50], [54, 100, 51, 100], [101, 360, 101, 150], [361, 649, 151, 200], [650, 1249, 201, 300], [1250, 2049, 301, 500]],
+    },
+};
+
+// Upper bounds in µg/m³ of DAQI bands 1 to 9, band 10 is everything above
+const DAQI_BOUNDS: Partial<Record<Pollutant, number[]>> = {
+    o3: [33, 66, 100, 120, 140, 160, 187, 213, 240],
+    no2: [67, 134, 200, 267, 334, 400, 467, 534, 600],
+    so2: [88, 177, 266, 354, 443, 532, 710, 887, 1064],
+    pm2_5: [11, 23, 35, 41, 47, 53, 58, 64, 70],
+    pm10: [16, 33, 50, 58, 66, 75, 83, 91, 100],
+};
+
+// CAQI background grid in µg/m³ for the index values 0, 25, 50, 75 and 100 (hourly values)
+const CAQI_GRID: Record<Pollutant, number[]> = {
+    no2: [0, 50, 100, 200, 400],
+    pm10: [0, 25, 50, 90, 180],
+    pm2_5: [0, 15, 30, 55, 110],
+    o3: [0, 60, 120, 180, 240],
+    co: [0, 5000, 7500, 10000, 20000],
+    so2: [0, 50, 100, 350, 500],
+};
+
+// AQHI coefficients per pollutant, NO₂ and O₃ in ppb and PM2.5 in µg/m³
+const AQHI_COEFFICIENTS: Partial<Record<Pollutant, number>> = { no2: 0.000871, o3: 0.000537, pm2_5: 0.000487 };
+
+const aqhiTerm = (pollutant: Pollutant, concentration: number): number | undefined => {
+    const coefficient = AQHI_COEFFICIENTS[pollutant];
+    return coefficient === undefined ? undefined : 1000 / 10.4 * (Math.exp(coefficient * toPpb(pollutant, concentration)) - 1);
+};
+
+export const AQI_STANDARDS: Record<AqiStandard, StandardDefinition> = {
+    'us-epa': {
+        name: 'US EPA AQI',
+        shortName: 'AQI',
+        levels: [
+            { max: 50, text: 'airQuality.good', emoji: '😀', color: '#00e400' },
+            { max: 100, text: 'airQuality.moderate', emoji: '😐', color: '#ffff00' },
+            { max: 150, text: 'airQuality.sensitive', emoji: '😷', color: '#ff7e00' },
+            { max: 200, text: 'airQuality.unhealthy', emoji: '🤢', color: '#ff0000' },
+            { max: 300, text: 'airQuality.veryUnhealthy', emoji: '🤮', color: '#8f3f97' },
+            { max: Infinity, text: 'airQuality.hazardous', emoji: '💀', color: '#7e0023' },
+        ],
+        subIndex: (pollutant, concentration) => {
+            const table = EPA_BREAKPOINTS[pollutant];
+            return table && interpolate(truncate(table.toUnit(concentration), table.decimals), table.breakpoints);
+        },
+        combine: subIndices => Math.max(...subIndices),
+    },
+    'uk-daqi': {
+        name: 'UK Daily Air Quality Index',
+        shortName: 'DAQI',
+        levels: [
+            { max: 3, text: 'airQuality.low', emoji: '😀', color: '#31cf00' },
+            { max: 6, text: 'airQuality.moderate', emoji: '😐', color: '#ff9a00' },
+            { max: 9, text: 'airQuality.high', emoji: '😷', color: '#ff0000' },
+            { max: Infinity, text: 'airQuality.veryHigh', emoji: '💀', color: '#ce30ff' },
+        ],
+        subIndex: (pollutant, concentration) => {
+            const bounds = DAQI_BOUNDS[pollutant];
+            return bounds && bounds.filter(bound => Math.round(concentration) > bound).length + 1;
+        },
+        combine: subIndices => Math.max(...subIndices),
+    },
+    'eu-caqi': {
+        name: 'European CAQI',
+        shortName: 'CAQI',
+        levels: [
+            { max: 25, text: 'airQuality.veryLow', emoji: '😀', color: '#79bc6a' },
+            { max: 50, text: 'airQuality.low', emoji: '🙂', color: '#bbcf4c' },
+            { max: 75, text: 'airQuality.medium', emoji: '😐', color: '#eec20b' },
+            { max: 100, text: 'airQuality.high', emoji: '😷', color: '#f29305' },
+            { max: Infinity, text: 'airQuality.veryHigh', emoji: '🤢', color: '#e8416f' },
+        ],
+        subIndex: (pollutant, concentration) => {
+            const grid = CAQI_GRID[pollutant];
+            const breakpoints = grid.slice(1).map((high, i): [number, number, number, number] => [grid[i], high, i * 25, (i + 1) * 25]);
+            // Above the grid the index keeps rising along the last band
+            const [low, high] = [grid[grid.length - 2], grid[grid.length - 1]];
+            return concentration > high
+                ? Math.round(75 + 25 * (concentration - low) / (high - low))
+                : interpolate(concentration, breakpoints);
+        },
+        combine: subIndices => Math.max(...subIndices),
+    },
+    'ca-aqhi': {
+        name: 'Canada AQHI',
+        shortName: 'AQHI',
+        levels: [
+            { max: 3, text: 'airQuality.lowRisk', emoji: '😀', color: '#0099cc' },
+            { max: 6, text: 'airQuality.moderateRisk', emoji: '😐', color: '#ffcc00' },
+            { max: 10, text: 'airQuality.highRisk', emoji: '😷', color: '#ff6666' },
+            { max: Infinity, text: 'airQuality.veryHighRisk', emoji: '💀', color: '#990000' },
+        ],
+        // Each pollutant's share of the index, which is the rounded sum of the shares
+        subIndex: (pollutant, concentration) => {
+            const term = aqhiTerm(pollutant, concentration);
+            return term === undefined ? undefined : Math.round(term * 10) / 10;
+        },
+        combine: subIndices => Math.max(1, Math.round(subIndices.reduce((sum, value) => sum + value, 0))),
+        label: value => value > 10 ? '10+' : value.toString(),
+    },
+};
+
+export function getAqiLevel(standard: AqiStandard, value: number): AqiLevel {
+    const { levels } = AQI_STANDARDS[standard];
+    return levels.find(level => value <= level.max) ?? levels[levels.length - 1];
+}
+
+// The index of the current concentrations. The standards are defined on 1 to 24 hour averages, the current values stand in for them.
+// Without measurements there is no index and no pollutants.
+export function calculateAirQuality(airQuality: AirQuality | undefined, setting: AqiStandard): AirQualityIndex {
+    // A standard from settings edited by hand or written by a later version falls back to the EPA's
+    const standard: AqiStandard = setting in AQI_STANDARDS ? setting : 'us-epa';
+    const definition = AQI_STANDARDS[standard];
+
+    const pollutants = (Object.keys(POLLUTANT_NAMES) as Pollutant[])
+        .map(pollutant => {
+            const concentration = airQuality?.[pollutant];
+            const value = typeof concentration === 'number' && !isNaN(concentration) ? definition.subIndex(pollutant, concentration) : undefined;
+            return value === undefined ? undefined : { pollutant, concentration, value, level: getAqiLevel(standard, value) };
+        })
+        .filter((index): index is PollutantIndex => !!index)
+        .sort((a, b) => b.value - a.value);
+
+    if (!pollutants.length) {
+        return { standard, value: undefined, label: '', level: undefined, pollutants };
+    }
+
+    const value = definition.combine(pollutants.map(index => index.value));
+    return {
+        standard,
+        value,
+        label: definition.label?.(value) ?? value.toString(),
+        level: getAqiLevel(standard, value),
+        pollutants,
+    };
+}
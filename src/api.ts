@@ -0,0 +1,29 @@
+import { Current, ForecastDay, WeatherData } from './types';
+import { AirQualityIndex } from './airQuality';
+
+// Workspace event fired whenever fresh weather arrives from the provider, with a WeatherUpdate
+export const WEATHER_UPDATED_EVENT = 'weather:updated';
+
+export interface WeatherUpdate {
+    query: string; // what was sent to the provider
+    locationId?: string; // the saved location the query belongs to, if any
+    data: WeatherData;
+    airQuality: AirQualityIndex; // in the standard chosen in the settings
+    fetchedAt: number;
+}
+
+// For Templater scripts and other plugins, as `app.plugins.plugins['obsidian-sample-plugin'].api`.
+// `location` is the name of a saved location or anything the provider understands, the active location when left out.
+// Every call goes through the plugin's cache, so the provider is only asked again once the refresh rate has passed,
+// and scripts asking at the same time share one request. Calls that do need a request wait their turn, spaced by the
+// provider's minimum interval. Values are in the metric fields of the weather model.
+export interface WeatherApi {
+    getWeather(location?: string): Promise<WeatherData>;
+    getCurrent(location?: string): Promise<Current>;
+    // Today first, capped at the Forecast Days setting: the cached response is shared with the view and fetched with that many days
+    getForecast(location?: string, days?: number): Promise<ForecastDay[]>;
+    // `value` and `level` are undefined where the provider measured nothing
+    getAQI(location?: string): Promise<AirQualityIndex>;
+    // Calls back after every successful refresh, call the returned function to stop
+    onUpdate(callback: (update: WeatherUpdate) => void): () => void;
+}
@@ -0,0 +1,135 @@
+// Sun and moon positions from the standard low-precision formulas (as in Astronomical Algorithms and SunCalc),
+// good to about a minute, which is enough to plan a photo around golden hour.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+const J0 = 0.0009;
+
+const toJulian = (ms: number): number => ms / DAY_MS - 0.5 + J1970;
+const fromJulian = (julian: number): number => (julian + 0.5 - J1970) * DAY_MS;
+const toDays = (ms: number): number => toJulian(ms) - J2000;
+
+const declination = (longitude: number, latitude: number): number =>
+    Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude));
+const rightAscension = (longitude: number, latitude: number): number =>
+    Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude));
+
+const solarMeanAnomaly = (days: number): number => RAD * (357.5291 + 0.98560028 * days);
+
+function eclipticLongitude(anomaly: number): number {
+    const center = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+    return anomaly + center + RAD * 102.9372 + Math.PI;
+}
+
+function sunCoordinates(days: number) {
+    const longitude = eclipticLongitude(solarMeanAnomaly(days));
+    return { declination: declination(longitude, 0), rightAscension: rightAscension(longitude, 0) };
+}
+
+function moonCoordinates(days: number) {
+    const meanLongitude = RAD * (218.316 + 13.176396 * days);
+    const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+    const meanDistance = RAD * (93.272 + 13.229350 * days);
+
+    const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+    const latitude = RAD * 5.128 * Math.sin(meanDistance);
+    return {
+        declination: declination(longitude, latitude),
+        rightAscension: rightAscension(longitude, latitude),
+        distance: 385001 - 20905 * Math.cos(meanAnomaly), // km
+    };
+}
+
+// Sun altitudes in degrees that the times below are defined by
+const ALTITUDES = {
+    sunrise: -0.833, // upper limb on the horizon, with refraction
+    blueHour: -6, // blue hour runs from civil twilight up to -4°
+    goldenHour: -4, // golden hour runs from -4° up to 6°
+    goldenHourEnd: 6,
+};
+
+export interface SunTimes {
+    sunrise: number; // ms since the epoch, NaN when the sun doesn't reach the altitude that day
+    sunset: number;
+    solarNoon: number;
+    morningBlueHour: [number, number];
+    morningGoldenHour: [number, number];
+    eveningGoldenHour: [number, number];
+    eveningBlueHour: [number, number];
+}
+
+// Sun times of the day around `date`, in ms since the epoch
+export function getSunTimes(date: number, lat: number, lon: number): SunTimes {
+    const lw = RAD * -lon;
+    const phi = RAD * lat;
+    const days = toDays(date);
+    const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+
+    const approxTransit = (hourAngle: number): number => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+    const transit = (approx: number, anomaly: number, longitude: number): number =>
+        J2000 + approx + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+
+    const solarDay = approxTransit(0);
+    const anomaly = solarMeanAnomaly(solarDay);
+    const longitude = eclipticLongitude(anomaly);
+    const sunDeclination = declination(longitude, 0);
+    const noon = transit(solarDay, anomaly, longitude);
+
+    // Rising and setting time for a sun altitude
+    const timesAt = (altitude: number): [number, number] => {
+        const hourAngle = Math.acos((Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(sunDeclination)) / (Math.cos(phi) * Math.cos(sunDeclination)));
+        const set = transit(approxTransit(hourAngle), anomaly, longitude);
+        return [fromJulian(noon - (set - noon)), fromJulian(set)];
+    };
+
+    const [sunrise, sunset] = timesAt(ALTITUDES.sunrise);
+    const [blueStart, blueEnd] = timesAt(ALTITUDES.blueHour);
+    const [goldenStart, goldenEnd] = timesAt(ALTITUDES.goldenHour);
+    const [goldenHighStart, goldenHighEnd] = timesAt(ALTITUDES.goldenHourEnd);
+
+    return {
+        sunrise,
+        sunset,
+        solarNoon: fromJulian(noon),
+        morningBlueHour: [blueStart, goldenStart],
+        morningGoldenHour: [goldenStart, goldenHighStart],
+        eveningGoldenHour: [goldenHighEnd, goldenEnd],
+        eveningBlueHour: [goldenEnd, blueEnd],
+    };
+}
+
+export type MoonPhase =
+    'new' | 'waxingCrescent' | 'firstQuarter' | 'waxingGibbous' | 'full' | 'waningGibbous' | 'lastQuarter' | 'waningCrescent';
+
+const MOON_PHASES: MoonPhase[] = ['new', 'waxingCrescent', 'firstQuarter', 'waxingGibbous', 'full', 'waningGibbous', 'lastQuarter', 'waningCrescent'];
+const MOON_EMOJI: Record<MoonPhase, string> = {
+    new: '🌑', waxingCrescent: '🌒', firstQuarter: '🌓', waxingGibbous: '🌔',
+    full: '🌕', waningGibbous: '🌖', lastQuarter: '🌗', waningCrescent: '🌘',
+};
+
+export interface MoonIllumination {
+    fraction: number; // illuminated part, 0 to 1
+    phase: MoonPhase;
+    emoji: string;
+}
+
+export function getMoonIllumination(date: number): MoonIllumination {
+    const days = toDays(date);
+    const sun = sunCoordinates(days);
+    const moon = moonCoordinates(days);
+    const sunDistance = 149598000; // km
+
+    const elongation = Math.acos(Math.sin(sun.declination) * Math.sin(moon.declination)
+        + Math.cos(sun.declination) * Math.cos(moon.declination) * Math.cos(sun.rightAscension - moon.rightAscension));
+    const incidence = Math.atan2(sunDistance * Math.sin(elongation), moon.distance - sunDistance * Math.cos(elongation));
+    const angle = Math.atan2(Math.cos(sun.declination) * Math.sin(sun.rightAscension - moon.rightAscension),
+        Math.sin(sun.declination) * Math.cos(moon.declination) - Math.cos(sun.declination) * Math.sin(moon.declination) * Math.cos(sun.rightAscension - moon.rightAscension));
+
+    // 0 is new moon, 0.5 full moon
+    const cycle = 0.5 + 0.5 * incidence * (angle < 0 ? -1 : 1) / Math.PI;
+    const phase = MOON_PHASES[Math.round(cycle * 8) % 8];
+    return { fraction: (1 + Math.cos(incidence)) / 2, phase, emoji: MOON_EMOJI[phase] };
+}
@@ -0,0 +1,119 @@
+// Small SVG charts for the trends view, sized by their viewBox so they scale with the sidebar
+
+export interface ChartPoint {
+    x: number; // unix milliseconds
+    y: number;
+}
+
+export interface ChartSeries {
+    name: string;
+    color: string; // any CSS colour
+    points: (ChartPoint | null)[]; // null breaks the line where nothing was recorded
+}
+
+export interface ChartOptions {
+    from: number;
+    to: number;
+    formatX(time: number): string;
+    formatY(value: number): string;
+    barWidth?: number; // milliseconds each bar covers, bar charts only
+}
+
+export const SERIES_COLORS = ['var(--color-blue)', 'var(--color-orange)', 'var(--color-green)', 'var(--color-purple)', 'var(--color-red)', 'var(--color-cyan)'];
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 36 };
+
+interface Scale {
+    x(time: number): number;
+    y(value: number): number;
+}
+
+// Draws the frame, the y grid with its labels and the first and last time, returning the scales of the plot area
+function createFrame(svg: SVGSVGElement, min: number, max: number, options: ChartOptions): Scale {
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scale: Scale = {
+        x: time => PADDING.left + (time - options.from) / (options.to - options.from) * plotWidth,
+        y: value => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight,
+    };
+
+    [min, (min + max) / 2, max].forEach(value => {
+        const y = scale.y(value);
+        svg.createSvg('line', { cls: 'weather-chart-grid', attr: { x1: PADDING.left, x2: WIDTH - PADDING.right, y1: y, y2: y } });
+        svg.createSvg('text', { cls: 'weather-chart-label', attr: { x: PADDING.left - 4, y: y + 3, 'text-anchor': 'end' } })
+            .textContent = options.formatY(value);
+    });
+
+    const labelY = HEIGHT - 4;
+    svg.createSvg('text', { cls: 'weather-chart-label', attr: { x: PADDING.left, y: labelY, 'text-anchor': 'start' } })
+        .textContent = options.formatX(options.from);
+    svg.createSvg('text', { cls: 'weather-chart-label', attr: { x: WIDTH - PADDING.right, y: labelY, 'text-anchor': 'end' } })
+        .textContent = options.formatX(options.to);
+
+    return scale;
+}
+
+// Range of the values with a little room above, and below unless it starts at zero
+function valueRange(series: ChartSeries[], fromZero: boolean): [number, number] {
+    const values = series.flatMap(({ points }) => points.filter((point): point is ChartPoint => !!point).map(point => point.y));
+    if (!values.length) return [0, 1];
+
+    let min = fromZero ? Math.min(0, ...values) : Math.min(...values);
+    let max = Math.max(...values);
+    if (min === max) {
+        max += 1;
+        if (!fromZero) min -= 1;
+    }
+    const margin = (max - min) * 0.05;
+    return [fromZero ? min : min - margin, max + margin];
+}
+
+function createSvgRoot(): SVGSVGElement {
+    return createSvg('svg', { cls: 'weather-chart', attr: { viewBox: `0 0 ${WIDTH} ${HEIGHT}` } });
+}
+
+export function createLineChart(series: ChartSeries[], options: ChartOptions): SVGSVGElement {
+    const svg = createSvgRoot();
+    const [min, max] = valueRange(series, false);
+    const scale = createFrame(svg, min, max, options);
+
+    series.forEach(({ color, points }) => {
+        // One path with a move-to after every gap
+        let path = '';
+        let drawing = false;
+        points.forEach(point => {
+            if (!point) {
+                drawing = false;
+                return;
+            }
+            path += `${drawing ? 'L' : 'M'}${scale.x(point.x).toFixed(1)},${scale.y(point.y).toFixed(1)}`;
+            drawing = true;
+        });
+        svg.createSvg('path', { cls: 'weather-chart-line', attr: { d: path, stroke: color } });
+    });
+    return svg;
+}
+
+// Series are drawn side by side within each bar's time slot
+export function createBarChart(series: ChartSeries[], options: ChartOptions): SVGSVGElement {
+    const svg = createSvgRoot();
+    const [min, max] = valueRange(series, true);
+    const scale = createFrame(svg, min, max, options);
+
+    const slotWidth = scale.x(options.from + (options.barWidth ?? 0)) - scale.x(options.from);
+    const barWidth = Math.max(0.5, slotWidth * 0.8 / Math.max(1, series.length));
+    series.forEach(({ color, points }, index) => {
+        points.forEach(point => {
+            if (!point || point.y <= 0) return;
+            const x = scale.x(point.x) - slotWidth * 0.4 + index * barWidth;
+            const y = scale.y(point.y);
+            svg.createSvg('rect', {
+                cls: 'weather-chart-bar',
+                attr: { x: x.toFixed(1), y: y.toFixed(1), width: barWidth.toFixed(1), height: (scale.y(0) - y).toFixed(1), fill: color },
+            });
+        });
+    });
+    return svg;
+}
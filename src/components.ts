@@ -0,0 +1,370 @@
+import { moment } from 'obsidian';
+import { WeatherData } from './types';
+import { TranslationKey, t } from './i18n';
+import { AQI_STANDARDS, AirQualityIndex, POLLUTANT_NAMES } from './airQuality';
+import { getMoonIllumination, getSunTimes } from './astro';
+import { IconStyle, createConditionIcon } from './icons';
+import { ClockFormat, formatClockTime, formatDate, formatDateTime, formatHour, formatTime, formatTimestamp } from './datetime';
+import {
+    UnitSettings, formatDegrees, formatDistance, formatPrecipitation, formatPressure, formatSnow, formatTemperature, formatWind,
+} from './units';
+
+// The weather is drawn from sections, each rendering into the element it is given. The view, the status bar
+// popover and code blocks pick which sections they show and in what order.
+
+export type WeatherSection = 'header' | 'alerts' | 'current' | 'airquality' | 'astro' | 'hourly' | 'forecast' | 'footer';
+
+export const ALL_SECTIONS: WeatherSection[] = ['alerts', 'header', 'current', 'airquality', 'astro', 'hourly', 'forecast', 'footer'];
+
+export const SECTION_NAMES: Record<WeatherSection, TranslationKey> = {
+    header: 'section.header',
+    alerts: 'section.alerts',
+    current: 'section.current',
+    airquality: 'section.airquality',
+    astro: 'section.astro',
+    hourly: 'section.hourly',
+    forecast: 'section.forecast',
+    footer: 'section.footer',
+};
+
+// How much a weather view shows: every chosen section, the essentials, or just the current conditions
+export type WeatherLayout = 'full' | 'compact' | 'minimal';
+
+export const LAYOUT_NAMES: Record<WeatherLayout, TranslationKey> = {
+    full: 'layout.full',
+    compact: 'layout.compact',
+    minimal: 'layout.minimal',
+};
+
+const LAYOUT_SECTIONS: Record<Exclude<WeatherLayout, 'full'>, WeatherSection[]> = {
+    compact: ['alerts', 'header', 'current', 'hourly', 'footer'],
+    minimal: ['header', 'current'],
+};
+
+// The chosen sections a layout keeps, in the chosen order
+export function layoutSections(layout: WeatherLayout, sections: WeatherSection[]): WeatherSection[] {
+    return layout === 'full' ? sections : sections.filter(section => LAYOUT_SECTIONS[layout].includes(section));
+}
+
+// Everything a section needs, worked out once per render
+export interface WeatherContext {
+    data: WeatherData;
+    units: UnitSettings;
+    clock: ClockFormat;
+    airQuality: AirQualityIndex;
+    iconStyle: IconStyle;
+    staleSince?: number; // fetch time of data that could not be refreshed
+}
+
+type SectionRenderer = (el: HTMLElement, context: WeatherContext) => void;
+
+export function getUVIndexDescription(uvIndex: number): string {
+    if (uvIndex >= 0 && uvIndex <= 2) {
+        return t('uv.low');
+    } else if (uvIndex <= 5) {
+        return t('uv.moderate');
+    } else if (uvIndex <= 7) {
+        return t('uv.high');
+    } else if (uvIndex <= 10) {
+        return t('uv.veryHigh');
+    } else {
+        return t('uv.extreme');
+    }
+}
+
+// Seconds the location's clock is ahead of UTC, from the hourly forecast's local times and timestamps
+function getUtcOffset(data: WeatherData): number {
+    const hour = data.forecast?.forecastday[0]?.hour[0];
+    if (!hour) return Math.round(data.location.lon / 15) * 3600; // roughly the solar time zone
+    return Date.parse(`${hour.time.replace(' ', 'T')}:00Z`) / 1000 - hour.time_epoch;
+}
+
+// "14h 05m" style durations, or "+2m 14s" for changes
+function formatDuration(ms: number, signed = false): string {
+    const sign = ms < 0 ? '−' : '+';
+    const seconds = Math.round(Math.abs(ms) / 1000);
+    if (signed) {
+        return sign + t('astro.minutesSeconds', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 });
+    }
+    return t('astro.hoursMinutes', { hours: Math.floor(seconds / 3600), minutes: String(Math.floor(seconds / 60) % 60).padStart(2, '0') });
+}
+
+// Location name, with a badge when the data could not be refreshed
+export function renderHeader(el: HTMLElement, { data, clock, staleSince }: WeatherContext) {
+    el.createDiv({ cls: 'location-name', text: data.location.name });
+
+    if (staleSince) {
+        el.createDiv({
+            cls: 'weather-stale-badge',
+            text: t('view.staleSince', { time: formatTimestamp(staleSince, clock) }),
+            attr: { title: t('view.lastUpdated', { time: `${moment(staleSince).format('LL')} ${formatTimestamp(staleSince, clock)}` }) },
+        });
+    }
+}
+
+// Collapsible banner per alert, coloured by severity
+export function renderAlerts(el: HTMLElement, { data, clock }: WeatherContext) {
+    if (!data.alerts?.length) return;
+
+    const alertsEl = el.createDiv({ cls: 'weather-alerts' });
+    data.alerts.forEach(alert => {
+        const severity = alert.severity.toLowerCase();
+        const alertEl = alertsEl.createEl('details', { cls: `weather-alert weather-alert-${severity}` });
+        alertEl.createEl('summary', { cls: 'weather-alert-title', text: `⚠ ${alert.event || alert.headline}` });
+
+        const bodyEl = alertEl.createDiv({ cls: 'weather-alert-body' });
+        if (alert.headline && alert.headline !== alert.event) {
+            bodyEl.createDiv({ cls: 'weather-alert-headline', text: alert.headline });
+        }
+        if (alert.expires) {
+            bodyEl.createDiv({ cls: 'weather-alert-time', text: t('view.alertUntil', { time: `${moment(alert.expires).format('ddd')} ${formatTimestamp(moment(alert.expires).valueOf(), clock)}` }) });
+        }
+        if (alert.areas) {
+            bodyEl.createDiv({ cls: 'weather-alert-areas', text: alert.areas });
+        }
+        bodyEl.createDiv({ cls: 'weather-alert-description', text: alert.description });
+        if (alert.instruction) {
+            bodyEl.createDiv({ cls: 'weather-alert-instruction', text: alert.instruction });
+        }
+    });
+}
+
+// Icon, temperature, humidity and UV, then the condition and the other measurements
+export function renderCurrent(el: HTMLElement, { data, units, iconStyle }: WeatherContext) {
+    const { current } = data;
+    const { condition, uv } = current;
+
+    const currentEl = el.createDiv({ cls: 'weather-current' });
+    createConditionIcon(currentEl, condition, current.is_day === 1, iconStyle, 'weather-current-icon');
+
+    const infoEl = currentEl.createDiv({ cls: 'weather-current-info' });
+    const temperatureEl = infoEl.createDiv({ cls: 'weather-temperature', text: formatTemperature(current.temp_c, units.temperature, 1) });
+    temperatureEl.createSpan({ cls: 'feels-like', text: formatTemperature(current.feelslike_c, units.temperature, 1) });
+
+    const humidityEl = infoEl.createDiv({ text: t('view.humidity') });
+    humidityEl.createSpan({ cls: 'humidity', text: `${current.humidity}%` });
+    infoEl.createDiv({ text: t('view.uv', { value: `${uv} - ${getUVIndexDescription(uv)}` }) });
+
+    el.createDiv({ cls: 'condition-text', text: condition.text });
+
+    const measurementsEl = el.createDiv({ cls: 'weather-measurements' });
+    [
+        [t('view.wind'), `${formatWind(current.wind_kph, units.wind)} ${current.wind_dir}`.trim()],
+        [t('view.precipitation'), formatPrecipitation(current.precip_mm, units.precipitation)],
+        [t('view.pressure'), formatPressure(current.pressure_mb, units.pressure)],
+        [t('view.visibility'), formatDistance(current.vis_km, units.distance)],
+    ].forEach(([label, value]) => {
+        measurementsEl.createSpan({ cls: 'weather-measurement', text: `${label}: ${value}` });
+    });
+}
+
+// Index and level of the chosen standard, with the sub-index of each pollutant
+export function renderAirQuality(el: HTMLElement, { airQuality }: WeatherContext) {
+    // Nothing measured, the empty section is hidden
+    const { level, standard, label } = airQuality;
+    if (!level) return;
+
+    const summaryEl = el.createDiv({
+        cls: 'weather-aqi',
+        text: `${level.emoji} ${t(level.text)} (${AQI_STANDARDS[standard].shortName}: ${label} -`,
+    });
+    summaryEl.createSpan({ cls: 'weather-aqi-dot' }).style.setProperty('--weather-level-color', level.color);
+    summaryEl.appendText(')');
+
+    renderPollutants(el, airQuality);
+}
+
+// Collapsed to the main pollutant when the air isn't at its best level
+function renderPollutants(el: HTMLElement, airQuality: AirQualityIndex) {
+    const [main] = airQuality.pollutants;
+    const lowestLevel = AQI_STANDARDS[airQuality.standard].levels[0];
+
+    const pollutantsEl = el.createEl('details', { cls: 'weather-pollutants' });
+    pollutantsEl.createEl('summary', {
+        cls: 'weather-pollutants-summary',
+        text: airQuality.level === lowestLevel
+            ? t('airQuality.pollutants')
+            : t('airQuality.mainPollutant', { pollutant: POLLUTANT_NAMES[main.pollutant] }),
+    });
+
+    const gridEl = pollutantsEl.createDiv({ cls: 'weather-pollutants-grid' });
+    airQuality.pollutants.forEach(({ pollutant, concentration, value, level }) => {
+        gridEl.createSpan({ cls: 'weather-pollutant-name', text: POLLUTANT_NAMES[pollutant] });
+        gridEl.createSpan({ cls: 'weather-pollutant-concentration', text: `${Math.round(concentration)} µg/m³` });
+
+        const valueEl = gridEl.createSpan({ cls: 'weather-pollutant-value', text: value.toString(), attr: { title: t(level.text) } });
+        valueEl.createSpan({ cls: 'weather-pollutant-dot' }).style.setProperty('--weather-level-color', level.color);
+    });
+}
+
+// Sun arc, day length, golden and blue hours and the moon phase for the location's current day
+export function renderAstro(el: HTMLElement, { data, clock }: WeatherContext) {
+    const { location } = data;
+    const offset = getUtcOffset(data) * 1000;
+    const now = Date.parse(`${location.localtime.replace(' ', 'T')}:00Z`) - offset;
+    const noon = Date.parse(`${location.localtime.slice(0, 10)}T12:00:00Z`) - offset;
+
+    const today = getSunTimes(noon, location.lat, location.lon);
+    const yesterday = getSunTimes(noon - 24 * 60 * 60 * 1000, location.lat, location.lon);
+    const moon = getMoonIllumination(now);
+
+    // The provider's sunrise and sunset, so the panel matches the forecast days; computed when it has none,
+    // like OpenWeatherMap after the first day or "No sunrise" in polar summers
+    const astro = data.forecast?.forecastday[0]?.astro;
+    const providerTime = (time: string | undefined, computed: number): number => {
+        const parsed = moment(time ?? '', 'hh:mm A', true);
+        return parsed.isValid() ? Date.parse(`${location.localtime.slice(0, 10)}T${parsed.format('HH:mm')}:00Z`) - offset : computed;
+    };
+    const sunrise = providerTime(astro?.sunrise, today.sunrise);
+    const sunset = providerTime(astro?.sunset, today.sunset);
+
+    // NaN when the sun doesn't rise or set that day
+    const time = (ms: number): string => isNaN(ms) ? '–' : formatTime(new Date(ms + offset).toISOString().slice(0, 16), clock);
+    const range = ([start, end]: [number, number]): string => `${time(start)}–${time(end)}`;
+
+    const astroEl = el.createDiv({ cls: 'weather-astro' });
+    renderSunArc(astroEl, (now - sunrise) / (sunset - sunrise));
+
+    const rows: [string, string][] = [
+        [t('forecast.sunrise'), time(sunrise)],
+        [t('forecast.sunset'), time(sunset)],
+    ];
+    const dayLength = sunset - sunrise;
+    if (!isNaN(dayLength)) {
+        // Compared on the computed times of both days, the provider's are rounded to the minute
+        const change = (today.sunset - today.sunrise) - (yesterday.sunset - yesterday.sunrise);
+        const changeText = isNaN(change) ? '' : ` (${t('astro.change', { change: formatDuration(change, true) })})`;
+        rows.push([t('astro.dayLength'), formatDuration(dayLength) + changeText]);
+    }
+    rows.push(
+        [t('astro.goldenHour'), `${range(today.morningGoldenHour)}, ${range(today.eveningGoldenHour)}`],
+        [t('astro.blueHour'), `${range(today.morningBlueHour)}, ${range(today.eveningBlueHour)}`],
+    );
+
+    const moonText = t('astro.moon', { phase: t(`moon.${moon.phase}`), percent: Math.round(moon.fraction * 100) });
+    rows.push([t('forecast.moon'), `${moon.emoji} ${moonText}`]);
+    if (astro?.moonrise && astro.moonset) {
+        rows.push([`${t('forecast.moonrise')} / ${t('forecast.moonset')}`, `${formatClockTime(astro.moonrise, clock)} / ${formatClockTime(astro.moonset, clock)}`]);
+    }
+
+    const detailsEl = astroEl.createDiv({ cls: 'weather-astro-details' });
+    rows.forEach(([label, value]) => {
+        detailsEl.createSpan({ cls: 'weather-astro-label', text: label });
+        detailsEl.createSpan({ cls: 'weather-astro-value', text: value });
+    });
+}
+
+// Half ellipse from sunrise to sunset with the sun at `progress`, hidden outside 0 to 1 (night)
+function renderSunArc(el: HTMLElement, progress: number) {
+    const arcEl = el.createSvg('svg', { cls: 'weather-sun-arc', attr: { viewBox: '0 0 200 60' } });
+    arcEl.createSvg('line', { cls: 'weather-sun-horizon', attr: { x1: 0, y1: 52, x2: 200, y2: 52 } });
+    arcEl.createSvg('path', { cls: 'weather-sun-path', attr: { d: 'M 10 52 A 90 45 0 0 1 190 52' } });
+
+    if (progress >= 0 && progress <= 1) {
+        const angle = Math.PI * progress;
+        arcEl.createSvg('circle', {
+            cls: 'weather-sun',
+            attr: { cx: (100 - 90 * Math.cos(angle)).toFixed(1), cy: (52 - 45 * Math.sin(angle)).toFixed(1), r: 6 },
+        });
+    }
+}
+
+// Horizontally scrolling strip of the next 24 hours, starting at the location's current hour
+export function renderHourly(el: HTMLElement, { data, units, clock, iconStyle }: WeatherContext) {
+    const currentHour = `${data.location.localtime.slice(0, 13)}:00`;
+    const hours = (data.forecast?.forecastday ?? [])
+        .flatMap(forecastDay => forecastDay.hour)
+        .filter(hour => hour.time >= currentHour)
+        .slice(0, 24);
+
+    const stripEl = el.createDiv({ cls: 'weather-hourly' });
+    hours.forEach(hour => {
+        const hourEl = stripEl.createDiv({ cls: 'weather-hour' });
+        hourEl.createDiv({ cls: 'weather-hour-time', text: formatHour(hour.time, clock) });
+        createConditionIcon(hourEl, hour.condition, hour.is_day === 1, iconStyle, 'weather-hour-icon', hour.condition.text);
+        hourEl.createDiv({ cls: 'weather-hour-temp', text: formatDegrees(hour.temp_c, units.temperature) });
+        hourEl.createDiv({ cls: 'weather-hour-rain', text: hour.chance_of_rain ? `${hour.chance_of_rain}%` : '-' });
+
+        const wind = formatWind(hour.wind_kph, units.wind);
+        hourEl.createDiv({ cls: 'weather-hour-wind', text: wind, attr: { title: `${wind} ${hour.wind_dir}` } });
+    });
+}
+
+// One row per forecast day, expanding to the day's details and astro data on click
+export function renderForecast(el: HTMLElement, { data, units, clock, iconStyle }: WeatherContext) {
+    const today = data.location.localtime.slice(0, 10);
+
+    const forecastEl = el.createDiv({ cls: 'weather-forecast' });
+    (data.forecast?.forecastday ?? []).forEach(forecastDay => {
+        const { day, astro } = forecastDay;
+
+        const dayEl = forecastEl.createEl('details', { cls: 'weather-forecast-day' });
+        const summaryEl = dayEl.createEl('summary', { cls: 'weather-forecast-summary' });
+
+        const dateText = forecastDay.date === today
+            ? t('view.today')
+            : formatDate(forecastDay.date, { weekday: 'short', month: 'short', day: 'numeric' });
+        summaryEl.createSpan({ cls: 'weather-forecast-date', text: dateText });
+        createConditionIcon(summaryEl, day.condition, true, iconStyle, 'weather-forecast-icon', day.condition.text);
+        summaryEl.createSpan({
+            cls: 'weather-forecast-temp',
+            text: `${formatDegrees(day.maxtemp_c, units.temperature)} / ${formatDegrees(day.mintemp_c, units.temperature)}`,
+        });
+        summaryEl.createSpan({
+            cls: 'weather-forecast-rain',
+            text: day.daily_chance_of_rain ? `☔ ${day.daily_chance_of_rain}%` : '-',
+        });
+        if (day.daily_chance_of_snow) {
+            summaryEl.createSpan({ cls: 'weather-forecast-snow', text: `❄ ${day.daily_chance_of_snow}%` });
+        }
+        summaryEl.createSpan({ cls: 'weather-forecast-wind', text: formatWind(day.maxwind_kph, units.wind) });
+
+        const details: [string, string][] = [
+            [t('forecast.condition'), day.condition.text],
+            [t('forecast.average'), formatTemperature(day.avgtemp_c, units.temperature, 1)],
+            [t('forecast.precipitation'), formatPrecipitation(day.totalprecip_mm, units.precipitation)],
+            [t('forecast.snow'), formatSnow(day.totalsnow_cm, units.precipitation)],
+            [t('forecast.humidity'), `${day.avghumidity}%`],
+            [t('forecast.visibility'), formatDistance(day.avgvis_km, units.distance)],
+            [t('forecast.uv'), `${day.uv} - ${getUVIndexDescription(day.uv)}`],
+            [t('forecast.sunrise'), astro.sunrise && formatClockTime(astro.sunrise, clock)],
+            [t('forecast.sunset'), astro.sunset && formatClockTime(astro.sunset, clock)],
+            [t('forecast.moonrise'), astro.moonrise && formatClockTime(astro.moonrise, clock)],
+            [t('forecast.moonset'), astro.moonset && formatClockTime(astro.moonset, clock)],
+            [t('forecast.moon'), astro.moon_phase && `${astro.moon_phase} (${astro.moon_illumination}%)`],
+        ];
+
+        const detailsEl = dayEl.createDiv({ cls: 'weather-forecast-details' });
+        details
+            .filter(([, value]) => value)
+            .forEach(([label, value]) => {
+                detailsEl.createSpan({ cls: 'weather-forecast-label', text: label });
+                detailsEl.createSpan({ cls: 'weather-forecast-value', text: value });
+            });
+    });
+}
+
+// The location's local time
+export function renderFooter(el: HTMLElement, { data, clock }: WeatherContext) {
+    el.createDiv({ cls: 'update-time', text: formatDateTime(data.location.localtime, clock) });
+}
+
+export const SECTION_RENDERERS: Record<WeatherSection, SectionRenderer> = {
+    header: renderHeader,
+    alerts: renderAlerts,
+    current: renderCurrent,
+    airquality: renderAirQuality,
+    astro: renderAstro,
+    hourly: renderHourly,
+    forecast: renderForecast,
+    footer: renderFooter,
+};
+
+// Renders the sections in the given order into a fresh container inside `el`
+export function renderWeather(el: HTMLElement, context: WeatherContext, sections: WeatherSection[]): HTMLElement {
+    const containerEl = el.createDiv({ cls: 'weather-container' });
+    sections.forEach(section => {
+        SECTION_RENDERERS[section](containerEl.createDiv({ cls: `weather-section weather-section-${section}` }), context);
+    });
+    return containerEl;
+}
@@ -0,0 +1,37 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+
+export interface DailyNoteSettings {
+    folder: string;
+    format: string;
+}
+
+// Options of the core Daily notes plugin, which aren't part of the public API
+interface DailyNotesPlugin {
+    enabled: boolean;
+    instance?: { options?: Partial<DailyNoteSettings> };
+}
+
+const DEFAULT_FORMAT = 'YYYY-MM-DD';
+
+export function getDailyNoteSettings(app: App): DailyNoteSettings {
+    const internalPlugins = (app as unknown as { internalPlugins?: { getPluginById(id: string): DailyNotesPlugin | null } }).internalPlugins;
+    const options = internalPlugins?.getPluginById('daily-notes')?.instance?.options ?? {};
+
+    return {
+        folder: normalizePath(options.folder?.trim() || '/'),
+        format: options.format?.trim() || DEFAULT_FORMAT,
+    };
+}
+
+// Returns the date of a daily note, or null when the file isn't one
+export function getDailyNoteDate(file: TFile, settings: DailyNoteSettings): moment.Moment | null {
+    if (file.extension !== 'md') return null;
+
+    const folder = settings.folder === '/' ? '' : `${settings.folder}/`;
+    if (!file.path.startsWith(folder)) return null;
+
+    // The format may contain folders, e.g. "YYYY/MM/YYYY-MM-DD"
+    const relativePath = file.path.slice(folder.length, -'.md'.length);
+    const date = moment(relativePath, settings.format, true);
+    return date.isValid() ? date : null;
+}
@@ -0,0 +1,48 @@
+import { moment } from 'obsidian';
+
+export type ClockFormat = 'auto' | '12h' | '24h';
+
+// Obsidian sets moment's locale to its display language
+export const getLocale = (): string => moment.locale();
+
+const hour12 = (clock: ClockFormat): boolean | undefined => clock === 'auto' ? undefined : clock === '12h';
+
+// Local times of a location ("YYYY-MM-DD HH:mm") are wall-clock times, formatted as UTC so the device's timezone doesn't shift them
+function fromWallClock(localTime: string): Date {
+    const [date, time = '00:00'] = localTime.trim().split(/[ T]/);
+    return new Date(`${date}T${time.slice(0, 5)}:00Z`);
+}
+
+export function formatTime(localTime: string, clock: ClockFormat): string {
+    return fromWallClock(localTime).toLocaleTimeString(getLocale(), {
+        hour: '2-digit', minute: '2-digit', hour12: hour12(clock), timeZone: 'UTC',
+    });
+}
+
+// Hour labels of the hourly strip, e.g. "14" or "2 PM"
+export function formatHour(localTime: string, clock: ClockFormat): string {
+    return fromWallClock(localTime).toLocaleTimeString(getLocale(), {
+        hour: 'numeric', hour12: hour12(clock), timeZone: 'UTC',
+    });
+}
+
+// Astro times come as "06:12 AM"
+export function formatClockTime(time: string, clock: ClockFormat): string {
+    const parsed = moment(time, 'hh:mm A', true);
+    return parsed.isValid() ? formatTime(`1970-01-01 ${parsed.format('HH:mm')}`, clock) : time;
+}
+
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+    return fromWallClock(date).toLocaleDateString(getLocale(), { ...options, timeZone: 'UTC' });
+}
+
+export function formatDateTime(localTime: string, clock: ClockFormat): string {
+    return fromWallClock(localTime).toLocaleString(getLocale(), {
+        weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: hour12(clock), timeZone: 'UTC',
+    });
+}
+
+// Times on this device, such as when data was fetched
+export function formatTimestamp(timestamp: number, clock: ClockFormat): string {
+    return new Date(timestamp).toLocaleTimeString(getLocale(), { hour: '2-digit', minute: '2-digit', hour12: hour12(clock) });
+}
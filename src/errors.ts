@@ -0,0 +1,29 @@
+export type WeatherErrorKind = 'config' | 'auth' | 'location' | 'quota' | 'network' | 'unknown';
+
+// Thrown by the providers so the view can tell the user what went wrong
+export class WeatherError extends Error {
+    kind: WeatherErrorKind;
+
+    constructor(kind: WeatherErrorKind, message: string) {
+        super(message);
+        this.name = 'WeatherError';
+        this.kind = kind;
+    }
+
+    // Only temporary problems are worth retrying automatically
+    get retryable(): boolean {
+        return this.kind === 'network' || this.kind === 'quota' || this.kind === 'unknown';
+    }
+
+    static from(error: unknown): WeatherError {
+        if (error instanceof WeatherError) return error;
+        return new WeatherError('unknown', error instanceof Error ? error.message : String(error));
+    }
+}
+
+export function errorKindFromStatus(status: number): WeatherErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404) return 'location';
+    if (status === 429) return 'quota';
+    return 'unknown';
+}
@@ -0,0 +1,22 @@
+import { HISTORY_HEADER, averageByBucket, formatHistoryRow, parseHistory, toHistoryRecord } from './history';
+import { WeatherData } from './types';
+
+const data = { current: { temp_c: 12.5, humidity: 80, wind_kph: 14, uv: 2, precip_mm: 0.4 } } as WeatherData;
+
+describe('history rows', () => {
+    it('reads back what it writes, quoting names with commas', () => {
+        const record = toHistoryRecord(data, 'home', 'Paris, France', 42, 'us-epa');
+        const [parsed] = parseHistory(`${HISTORY_HEADER}\n${formatHistoryRow(record)}\n`);
+        expect(parsed).toEqual(record);
+    });
+
+    it('leaves the AQI empty without measurements, so it stays out of the averages', () => {
+        const record = toHistoryRecord(data, 'home', 'Paris', undefined, 'us-epa');
+        const row = formatHistoryRow(record);
+        expect(row.split(',')[7]).toBe('');
+
+        const records = parseHistory(row);
+        expect(records[0].aqi).toBeNaN();
+        expect(averageByBucket(records, 'aqi', records[0].time - 1000, records[0].time + 1000, 2000)).toEqual([null]);
+    });
+});
@@ -0,0 +1,123 @@
+import { WeatherData } from './types';
+
+// One recorded refresh, always in metric units so the log stays comparable when the unit settings change
+export interface HistoryRecord {
+    time: number; // unix milliseconds of the refresh
+    locationId: string;
+    location: string;
+    temp_c: number;
+    humidity: number;
+    wind_kph: number;
+    uv: number;
+    aqi: number; // NaN when nothing was measured, written as an empty field
+    aqi_standard: string; // the index is only comparable within one standard
+    precip_mm: number;
+}
+
+const COLUMNS = ['time', 'location_id', 'location', 'temp_c', 'humidity', 'wind_kph', 'uv', 'aqi', 'aqi_standard', 'precip_mm'];
+
+export const HISTORY_HEADER = COLUMNS.join(',');
+
+export function toHistoryRecord(data: WeatherData, locationId: string, location: string, aqi: number | undefined, aqiStandard: string): HistoryRecord {
+    const { current } = data;
+    return {
+        time: Date.now(),
+        locationId,
+        location,
+        temp_c: current.temp_c,
+        humidity: current.humidity,
+        wind_kph: current.wind_kph,
+        uv: current.uv,
+        aqi: aqi ?? NaN,
+        aqi_standard: aqiStandard,
+        precip_mm: current.precip_mm,
+    };
+}
+
+// Quotes a CSV field when it holds a comma, quote or line break
+const escapeField = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function formatHistoryRow(record: HistoryRecord): string {
+    return [
+        new Date(record.time).toISOString(),
+        record.locationId,
+        record.location,
+        record.temp_c,
+        record.humidity,
+        record.wind_kph,
+        record.uv,
+        isNaN(record.aqi) ? '' : record.aqi,
+        record.aqi_standard,
+        record.precip_mm,
+    ].map(value => escapeField(String(value))).join(',');
+}
+
+function splitRow(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields;
+}
+
+// Reads the log back, skipping the header and rows that were edited into something unreadable
+export function parseHistory(csv: string): HistoryRecord[] {
+    const records: HistoryRecord[] = [];
+    csv.split(/\r?\n/).forEach(line => {
+        if (!line.trim() || line === HISTORY_HEADER) return;
+
+        const [time, locationId, location, temp_c, humidity, wind_kph, uv, aqi, aqi_standard, precip_mm] = splitRow(line);
+        const record: HistoryRecord = {
+            time: Date.parse(time),
+            locationId,
+            location,
+            temp_c: Number(temp_c),
+            humidity: Number(humidity),
+            wind_kph: Number(wind_kph),
+            uv: Number(uv),
+            aqi: aqi ? Number(aqi) : NaN,
+            aqi_standard,
+            precip_mm: Number(precip_mm),
+        };
+        if (!isNaN(record.time) && locationId) {
+            records.push(record);
+        }
+    });
+    return records;
+}
+
+export type HistoryMetric = 'temp_c' | 'humidity' | 'wind_kph' | 'uv' | 'aqi' | 'precip_mm';
+
+// Mean of a metric per time bucket between from and to, centred in the bucket; null where nothing was recorded
+export function averageByBucket(records: HistoryRecord[], metric: HistoryMetric, from: number, to: number, bucket: number): ({ x: number, y: number } | null)[] {
+    const count = Math.ceil((to - from) / bucket);
+    const sums = new Array<number>(count).fill(0);
+    const counts = new Array<number>(count).fill(0);
+    records.forEach(record => {
+        const index = Math.floor((record.time - from) / bucket);
+        if (index < 0 || index >= count || isNaN(record[metric])) return;
+        sums[index] += record[metric];
+        counts[index]++;
+    });
+    return sums.map((sum, index) => counts[index] ? { x: from + (index + 0.5) * bucket, y: sum / counts[index] } : null);
+}
@@ -0,0 +1,299 @@
+import type { Translation } from '.';
+
+const de: Translation = {
+    'view.title': 'Obsidian Weather',
+    'view.refresh': 'Aktualisieren',
+    'view.retry': 'Erneut versuchen',
+    'view.humidity': 'Luftfeuchtigkeit:',
+    'view.uv': 'UV: {value}',
+    'view.wind': 'Wind',
+    'view.precipitation': 'Niederschlag',
+    'view.pressure': 'Luftdruck',
+    'view.visibility': 'Sicht',
+    'view.staleSince': 'veraltet seit {time}',
+    'view.lastUpdated': 'Zuletzt aktualisiert {time}',
+    'view.today': 'HEUTE',
+    'view.alertUntil': 'Bis {time}',
+    'view.noLocation': 'Für diesen Wetterblock ist kein Ort festgelegt',
+    'view.loadFailed': 'Das Wetter für „{query}“ konnte nicht geladen werden',
+
+    'forecast.condition': 'Wetterlage',
+    'forecast.average': 'Durchschnitt',
+    'forecast.precipitation': 'Niederschlag',
+    'forecast.snow': 'Schnee',
+    'forecast.humidity': 'Luftfeuchtigkeit',
+    'forecast.visibility': 'Sicht',
+    'forecast.uv': 'UV',
+    'forecast.sunrise': 'Sonnenaufgang',
+    'forecast.sunset': 'Sonnenuntergang',
+    'forecast.moonrise': 'Mondaufgang',
+    'forecast.moonset': 'Monduntergang',
+    'forecast.moon': 'Mond',
+
+    'astro.dayLength': 'Tageslänge',
+    'astro.change': '{change} ggü. gestern',
+    'astro.hoursMinutes': '{hours} Std. {minutes} Min.',
+    'astro.minutesSeconds': '{minutes} Min. {seconds} Sek.',
+    'astro.goldenHour': 'Goldene Stunde',
+    'astro.blueHour': 'Blaue Stunde',
+    'astro.moon': '{phase}, {percent} % beleuchtet',
+
+    'moon.new': 'Neumond',
+    'moon.waxingCrescent': 'Zunehmende Sichel',
+    'moon.firstQuarter': 'Erstes Viertel',
+    'moon.waxingGibbous': 'Zunehmender Mond',
+    'moon.full': 'Vollmond',
+    'moon.waningGibbous': 'Abnehmender Mond',
+    'moon.lastQuarter': 'Letztes Viertel',
+    'moon.waningCrescent': 'Abnehmende Sichel',
+
+    'airQuality.good': 'Gut',
+    'airQuality.moderate': 'Mäßig',
+    'airQuality.sensitive': 'Ungesund für empfindliche Gruppen',
+    'airQuality.unhealthy': 'Ungesund',
+    'airQuality.veryUnhealthy': 'Sehr ungesund',
+    'airQuality.hazardous': 'Gefährlich',
+    'airQuality.veryLow': 'Sehr niedrig',
+    'airQuality.low': 'Niedrig',
+    'airQuality.medium': 'Mittel',
+    'airQuality.high': 'Hoch',
+    'airQuality.veryHigh': 'Sehr hoch',
+    'airQuality.lowRisk': 'Geringes Risiko',
+    'airQuality.moderateRisk': 'Mäßiges Risiko',
+    'airQuality.highRisk': 'Hohes Risiko',
+    'airQuality.veryHighRisk': 'Sehr hohes Risiko',
+    'airQuality.pollutants': 'Schadstoffe',
+    'airQuality.mainPollutant': 'Vor allem {pollutant}',
+
+    'uv.low': 'Niedrig',
+    'uv.moderate': 'Mäßig',
+    'uv.high': 'Hoch',
+    'uv.veryHigh': 'Sehr hoch',
+    'uv.extreme': 'Extrem',
+
+    'error.config': 'Wetter ist nicht eingerichtet',
+    'error.auth': 'Ungültiger API-Schlüssel',
+    'error.location': 'Ort nicht gefunden',
+    'error.quota': 'API-Limit erreicht',
+    'error.network': 'Wetterdienst nicht erreichbar',
+    'error.unknown': 'Das Wetter konnte nicht geladen werden',
+    'error.noLocation': 'Füge in den Plugin-Einstellungen einen Ort hinzu',
+    'error.noApiKey': 'Füge in den Plugin-Einstellungen deinen {provider}-API-Schlüssel hinzu',
+    'error.unreachable': 'Der Wetterdienst ist nicht erreichbar',
+    'error.status': 'Der Wetterdienst antwortete mit Status {status}',
+    'error.placeNotFound': 'Ort „{query}“ nicht gefunden',
+    'error.noHistory': 'Noch keine Daten für den {date}',
+    'error.noClimate': 'Keine Klimadaten für den {date}',
+    'error.noWeatherFor': 'Kein Wetter für den {date}',
+
+    'command.open': 'Wetter öffnen',
+    'command.refresh': 'Wetter aktualisieren',
+    'command.insert': 'Aktuelles Wetter einfügen',
+    'command.backfill': 'Vergangenes Wetter zu täglichen Notizen hinzufügen',
+    'command.stamp': 'Wetter zu den Eigenschaften der Notiz hinzufügen',
+    'command.planTrip': 'Reisevorhersage einfügen',
+    'command.openTrends': 'Wetterverlauf öffnen',
+
+    'notice.stampFailed': 'Das Wetter konnte nicht zu {note} hinzugefügt werden',
+    'notice.noHistory': '{provider} bietet kein vergangenes Wetter an',
+    'notice.setUpFirst': 'Richte zuerst einen Ort und einen API-Schlüssel ein',
+    'notice.allHaveWeather': 'Alle täglichen Notizen haben bereits Wetter',
+    'notice.loadFailed': 'Das Wetter für {location} konnte nicht geladen werden',
+    'notice.planningTrip': 'Vorhersage für {location} wird geladen…',
+    'notice.outlookFailed': 'Für einige Tage gibt es keinen Ausblick: {message}',
+
+    'backfill.title': 'Vergangenes Wetter wird zu täglichen Notizen hinzugefügt',
+    'backfill.progress': '{done} von {total} Notizen',
+    'backfill.summary': '{written} geschrieben, {failed} fehlgeschlagen',
+    'backfill.stopped': 'Angehalten. Führe den Befehl später erneut aus, um fortzufahren.',
+    'backfill.done': 'Fertig: {summary}. Notizen ohne Wetter werden beim nächsten Durchlauf erneut bearbeitet.',
+    'backfill.cancel': 'Abbrechen',
+    'backfill.close': 'Schließen',
+
+    'rule.temp': 'Temperatur',
+    'rule.feelslike': 'Gefühlt',
+    'rule.humidity': 'Luftfeuchtigkeit',
+    'rule.uv': 'UV-Index',
+    'rule.wind': 'Wind',
+    'rule.aqi': 'Luftqualitätsindex',
+    'rule.maxtemp': 'Höchsttemperatur',
+    'rule.mintemp': 'Tiefsttemperatur',
+    'rule.chance_of_rain': 'Regenwahrscheinlichkeit',
+    'rule.chance_of_snow': 'Schneewahrscheinlichkeit',
+    'rule.totalprecip': 'Niederschlag',
+    'rule.day_uv': 'UV-Index (Tag)',
+    'rule.maxwind': 'Maximaler Wind',
+    'rule.today': 'heute',
+    'rule.tomorrow': 'morgen',
+    'rule.inDays': 'in {days} Tagen',
+    'rule.fired': '{location}: {rule} (jetzt {value})',
+
+    'trip.title': 'Reisevorhersage',
+    'trip.location': 'Ort',
+    'trip.locationDesc': 'Name eines gespeicherten Orts oder jeder Ort, den der Anbieter versteht',
+    'trip.start': 'Erster Tag',
+    'trip.end': 'Letzter Tag',
+    'trip.insert': 'Einfügen',
+    'trip.noLocation': 'Bitte einen Ort eingeben',
+    'trip.invalidDates': 'Der letzte Tag darf nicht vor dem ersten liegen',
+    'trip.pastDates': 'Die Reise darf nicht in der Vergangenheit beginnen',
+    'trip.tooLong': 'Eine Reise darf höchstens {days} Tage lang sein',
+    'trip.date': 'Datum',
+    'trip.weather': 'Wetter',
+    'trip.highLow': 'Max. / Min.',
+    'trip.precipChance': 'Niederschlag',
+    'trip.wind': 'Wind',
+    'trip.reliability': 'Hinweis',
+    'trip.uncertain': 'unsicher',
+    'trip.outlook': 'Langfristschätzung',
+    'trip.noForecast': 'noch keine Vorhersage',
+
+    'trends.title': 'Wetterverlauf',
+    'trends.temperature': 'Temperatur',
+    'trends.wind': 'Wind',
+    'trends.airQuality': 'Luftqualität',
+    'trends.range.24h': 'Letzte 24 Stunden',
+    'trends.range.7d': 'Letzte 7 Tage',
+    'trends.range.30d': 'Letzte 30 Tage',
+    'trends.range.1y': 'Letztes Jahr',
+    'trends.notRecording': 'Schalte „Wetterverlauf aufzeichnen“ in den Einstellungen ein, um Daten für die Diagramme zu sammeln.',
+    'trends.noData': 'Für die gewählten Orte wurde in diesem Zeitraum noch nichts aufgezeichnet.',
+
+    'section.header': 'Ort',
+    'section.alerts': 'Wetterwarnungen',
+    'section.current': 'Aktuelles Wetter',
+    'section.airquality': 'Luftqualität',
+    'section.astro': 'Sonne und Mond',
+    'section.hourly': 'Nächste 24 Stunden',
+    'section.forecast': 'Vorhersage',
+    'section.footer': 'Ortszeit',
+    'layout.full': 'Vollständiges Layout',
+    'layout.compact': 'Kompaktes Layout',
+    'layout.minimal': 'Minimales Layout',
+
+    'search.placeholder': 'Ortsname, Postleitzahl, Flughafencode oder Breite,Länge',
+    'search.noResults': 'Keine Orte gefunden',
+    'search.coordinates': 'Koordinaten',
+
+    'settings.language': 'Sprache',
+    'settings.languageDesc': 'Sprache der Wetterbeschreibungen. Das Plugin selbst ist auf Englisch, Deutsch, Französisch und Spanisch übersetzt.',
+    'settings.automatic': 'Automatisch',
+    'settings.units': 'Einheiten',
+    'settings.unitsDesc': 'Wähle eine Vorlage oder lege jede Einheit unten fest',
+    'settings.metric': 'Metrisch',
+    'settings.imperial': 'Imperial',
+    'settings.uk': 'Vereinigtes Königreich (°C, mph, Meilen)',
+    'settings.custom': 'Benutzerdefiniert',
+    'settings.temperature': 'Temperatur',
+    'settings.windSpeed': 'Windgeschwindigkeit',
+    'settings.precipitation': 'Niederschlag',
+    'settings.pressure': 'Luftdruck',
+    'settings.visibility': 'Sichtweite',
+    'settings.timeFormat': 'Zeitformat',
+    'settings.timeFormatDesc': 'Automatisch folgt der Sprache von Obsidian',
+    'settings.24h': '24 Stunden',
+    'settings.12h': '12 Stunden',
+    'settings.sections': 'Bereiche',
+    'settings.sectionsDesc': 'Lege fest, welche Bereiche die Wetteransicht und das Popover der Statusleiste zeigen und in welcher Reihenfolge.',
+    'settings.moveUp': 'Nach oben',
+    'settings.moveDown': 'Nach unten',
+    'settings.aqiStandard': 'Luftqualitätsindex',
+    'settings.aqiStandardDesc': 'Standard für den Luftqualitätsindex, seine Farben und die Aufschlüsselung nach Schadstoffen',
+    'settings.iconStyle': 'Symbole',
+    'settings.iconStyleDesc': 'Mitgelieferte Symbole funktionieren offline und folgen den Farben des Themes, Anbieterbilder werden vom Wetterdienst geladen',
+    'settings.bundledIcons': 'Mitgeliefert',
+    'settings.providerIcons': 'Bilder des Anbieters',
+    'settings.locations': 'Orte',
+    'settings.location': 'Ort {number}',
+    'settings.locationDesc': 'Name, Ort und abweichende Einheit',
+    'settings.name': 'Name',
+    'settings.searchLocation': 'Suchen…',
+    'settings.noPlace': 'Kein Ort gewählt',
+    'settings.defaultUnit': 'Standardeinheit',
+    'settings.removeLocation': 'Ort entfernen',
+    'settings.addLocation': 'Ort hinzufügen',
+    'settings.followActiveNote': 'Aktiver Notiz folgen',
+    'settings.followActiveNoteDesc': 'Zeigt das Wetter des Orts aus den Eigenschaften der aktiven Notiz, etwa einer Reise- oder Besuchsnotiz. Notizen ohne Ort zeigen den aktiven Ort.',
+    'settings.noteLocationProperty': 'Ortseigenschaft',
+    'settings.noteLocationPropertyDesc': 'Eigenschaft der Notiz mit dem Ort: Name eines gespeicherten Orts, Ortsname, Postleitzahl oder Koordinaten wie 51.5,-0.12 oder [51.5, -0.12]',
+    'settings.provider': 'Wetterdienst',
+    'settings.providerDesc': 'Woher die Wetterdaten kommen',
+    'settings.apiKey': 'API-Schlüssel',
+    'settings.apiKeyDesc': 'Dein API-Schlüssel von {site}',
+    'settings.enterApiKey': 'API-Schlüssel eingeben',
+    'settings.refreshRate': 'Aktualisierungsintervall',
+    'settings.refreshRateDesc': 'Intervall in Minuten. Gib 999 ein, um die Aktualisierung abzuschalten.',
+    'settings.enterRefreshRate': 'Intervall eingeben',
+    'settings.forecastDays': 'Vorhersagetage',
+    'settings.forecastDaysDesc': 'Anzahl der Vorhersagetage, bei diesem Wetterdienst bis zu {max}',
+    'settings.alertNotifications': 'Benachrichtigung bei Unwetterwarnungen',
+    'settings.alertNotificationsDesc': 'Zeigt einen Hinweis, wenn eine neue amtliche Unwetterwarnung für einen gespeicherten Ort ausgegeben wird (nur WeatherAPI.com)',
+    'settings.rules': 'Wetterregeln',
+    'settings.rulesDesc': 'Erhalte einen Hinweis und optional eine Zeile in einer Notiz, wenn das Wetter eines gespeicherten Orts einen Schwellenwert überschreitet. Die Werte verwenden die Einheiten des Orts.',
+    'settings.enabled': 'Aktiviert',
+    'settings.appendToNote': 'An Notiz anhängen (optional)',
+    'settings.ruleDayPastForecast': '{day} (nach der Vorhersage)',
+    'settings.removeRule': 'Regel entfernen',
+    'settings.addRule': 'Regel hinzufügen',
+    'settings.ruleCooldown': 'Regel-Pause',
+    'settings.ruleCooldownDesc': 'Stunden, bevor dieselbe Regel für einen Ort erneut auslösen kann',
+    'settings.offlineCache': 'Offline-Zwischenspeicher',
+    'settings.offlineCacheDesc': 'Stunden, in denen die letzte Antwort weiter angezeigt wird, wenn das Wetter nicht aktualisiert werden kann',
+    'settings.insertTemplate': 'Vorlage zum Einfügen',
+    'settings.insertTemplateDesc': 'Für den Befehl „Aktuelles Wetter einfügen“. Platzhalter: {placeholders}. Ein Modifikator folgt nach einem senkrechten Strich, z. B. {examples}.',
+    'settings.showStatusBar': 'In der Statusleiste anzeigen',
+    'settings.showStatusBarDesc': 'Zeigt das Wetter des aktiven Orts in der Statusleiste. Beim Darüberfahren erscheinen die aktuellen Bedingungen, ein Klick öffnet die Wetteransicht.',
+    'settings.statusBarTemplate': 'Format der Statusleiste',
+    'settings.statusBarTemplateDesc': 'Verwendet dieselben Platzhalter wie die Vorlage zum Einfügen, z. B. {{icon}}, {{temp}}, {{humidity}} oder {{rain}}',
+    'settings.recordHistory': 'Wetterverlauf aufzeichnen',
+    'settings.recordHistoryDesc': 'Hängt nach jeder Aktualisierung Temperatur, Luftfeuchtigkeit, Wind, UV, Luftqualität und Niederschlag an eine CSV-Datei im Vault an. Die Ansicht Wetterverlauf zeichnet daraus Diagramme.',
+    'settings.historyFile': 'Verlaufsdatei',
+    'settings.historyFileDesc': 'Pfad der CSV-Datei im Vault',
+    'settings.stampDailyNotes': 'Wetter zu täglichen Notizen hinzufügen',
+    'settings.stampDailyNotesDesc': 'Schreibt beim Erstellen der heutigen täglichen Notiz eine Wetter-Momentaufnahme in ihre Eigenschaften',
+    'settings.property': 'Eigenschaft {name}',
+    'settings.propertyDesc': 'Leer lassen, um diesen Wert auszulassen',
+    'settings.highTemperature': 'Höchsttemperatur',
+    'settings.lowTemperature': 'Tiefsttemperatur',
+    'settings.condition': 'Wetterlage',
+    'settings.airQualityIndex': 'Luftqualitätsindex',
+    'settings.sunrise': 'Sonnenaufgang',
+    'settings.sunset': 'Sonnenuntergang',
+    'settings.locationName': 'Ort',
+
+    'condition.1000': 'Sonnig',
+    'condition.1000.night': 'Klar',
+    'condition.1003': 'Teilweise bewölkt',
+    'condition.1006': 'Bewölkt',
+    'condition.1009': 'Bedeckt',
+    'condition.1030': 'Dunst',
+    'condition.1087': 'Gewitter möglich',
+    'condition.1135': 'Nebel',
+    'condition.1147': 'Gefrierender Nebel',
+    'condition.1150': 'Stellenweise leichter Nieselregen',
+    'condition.1153': 'Leichter Nieselregen',
+    'condition.1168': 'Gefrierender Nieselregen',
+    'condition.1171': 'Starker gefrierender Nieselregen',
+    'condition.1183': 'Leichter Regen',
+    'condition.1189': 'Mäßiger Regen',
+    'condition.1195': 'Starker Regen',
+    'condition.1198': 'Leichter gefrierender Regen',
+    'condition.1201': 'Mäßiger bis starker gefrierender Regen',
+    'condition.1204': 'Leichter Schneeregen',
+    'condition.1213': 'Leichter Schneefall',
+    'condition.1219': 'Mäßiger Schneefall',
+    'condition.1225': 'Starker Schneefall',
+    'condition.1237': 'Eiskörner',
+    'condition.1240': 'Leichter Regenschauer',
+    'condition.1243': 'Mäßiger bis starker Regenschauer',
+    'condition.1246': 'Sintflutartiger Regenschauer',
+    'condition.1249': 'Leichte Schneeregenschauer',
+    'condition.1252': 'Mäßige bis starke Schneeregenschauer',
+    'condition.1255': 'Leichte Schneeschauer',
+    'condition.1258': 'Mäßige bis starke Schneeschauer',
+    'condition.1273': 'Stellenweise leichter Regen mit Gewitter',
+    'condition.1276': 'Mäßiger bis starker Regen mit Gewitter',
+    'condition.1282': 'Mäßiger bis starker Schneefall mit Gewitter',
+};
+
+export default de;
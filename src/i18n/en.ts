@@ -0,0 +1,264 @@
+// English is the fallback for keys a translation is missing
+const en = {
+    'view.title': 'Obsidian Weather',
+    'view.refresh': 'Refresh',
+    'view.retry': 'Retry',
+    'view.humidity': 'Humidity:',
+    'view.uv': 'UV: {value}',
+    'view.wind': 'Wind',
+    'view.precipitation': 'Precipitation',
+    'view.pressure': 'Pressure',
+    'view.visibility': 'Visibility',
+    'view.staleSince': 'stale since {time}',
+    'view.lastUpdated': 'Last updated {time}',
+    'view.today': 'TODAY',
+    'view.alertUntil': 'Until {time}',
+    'view.noLocation': 'No location set for this weather block',
+    'view.loadFailed': 'Could not load the weather for "{query}"',
+
+    'forecast.condition': 'Condition',
+    'forecast.average': 'Average',
+    'forecast.precipitation': 'Precipitation',
+    'forecast.snow': 'Snow',
+    'forecast.humidity': 'Humidity',
+    'forecast.visibility': 'Visibility',
+    'forecast.uv': 'UV',
+    'forecast.sunrise': 'Sunrise',
+    'forecast.sunset': 'Sunset',
+    'forecast.moonrise': 'Moonrise',
+    'forecast.moonset': 'Moonset',
+    'forecast.moon': 'Moon',
+
+    'astro.dayLength': 'Day length',
+    'astro.change': '{change} vs yesterday',
+    'astro.hoursMinutes': '{hours}h {minutes}m',
+    'astro.minutesSeconds': '{minutes}m {seconds}s',
+    'astro.goldenHour': 'Golden hour',
+    'astro.blueHour': 'Blue hour',
+    'astro.moon': '{phase}, {percent}% lit',
+
+    'moon.new': 'New moon',
+    'moon.waxingCrescent': 'Waxing crescent',
+    'moon.firstQuarter': 'First quarter',
+    'moon.waxingGibbous': 'Waxing gibbous',
+    'moon.full': 'Full moon',
+    'moon.waningGibbous': 'Waning gibbous',
+    'moon.lastQuarter': 'Last quarter',
+    'moon.waningCrescent': 'Waning crescent',
+
+    'airQuality.good': 'Good',
+    'airQuality.moderate': 'Moderate',
+    'airQuality.sensitive': 'Unhealthy for Sensitive Groups',
+    'airQuality.unhealthy': 'Unhealthy',
+    'airQuality.veryUnhealthy': 'Very Unhealthy',
+    'airQuality.hazardous': 'Hazardous',
+    'airQuality.veryLow': 'Very Low',
+    'airQuality.low': 'Low',
+    'airQuality.medium': 'Medium',
+    'airQuality.high': 'High',
+    'airQuality.veryHigh': 'Very High',
+    'airQuality.lowRisk': 'Low Risk',
+    'airQuality.moderateRisk': 'Moderate Risk',
+    'airQuality.highRisk': 'High Risk',
+    'airQuality.veryHighRisk': 'Very High Risk',
+    'airQuality.pollutants': 'Pollutants',
+    'airQuality.mainPollutant': 'Mainly {pollutant}',
+
+    'uv.low': 'Low',
+    'uv.moderate': 'Moderate',
+    'uv.high': 'High',
+    'uv.veryHigh': 'Very High',
+    'uv.extreme': 'Extreme',
+
+    'error.config': 'Weather is not set up',
+    'error.auth': 'Invalid API key',
+    'error.location': 'Location not found',
+    'error.quota': 'API limit reached',
+    'error.network': "Can't reach the weather service",
+    'error.unknown': 'Could not load the weather',
+    'error.noLocation': 'Add a location in the plugin settings',
+    'error.noApiKey': 'Add your {provider} API key in the plugin settings',
+    'error.unreachable': 'Could not reach the weather service',
+    'error.status': 'The weather service answered with status {status}',
+    'error.placeNotFound': 'Location "{query}" not found',
+    'error.noHistory': 'No history for {date} yet',
+    'error.noClimate': 'No climate data for {date}',
+    'error.noWeatherFor': 'No weather for {date}',
+
+    'command.open': 'Open Weather',
+    'command.refresh': 'Refresh Weather',
+    'command.insert': 'Insert current weather',
+    'command.backfill': 'Add past weather to daily notes',
+    'command.stamp': 'Add weather to note properties',
+    'command.planTrip': 'Insert trip forecast',
+    'command.openTrends': 'Open weather trends',
+
+    'notice.stampFailed': 'Could not add the weather to {note}',
+    'notice.noHistory': "{provider} doesn't provide past weather",
+    'notice.setUpFirst': 'Set up a location and API key first',
+    'notice.allHaveWeather': 'All daily notes already have weather',
+    'notice.loadFailed': 'Could not load the weather for {location}',
+    'notice.planningTrip': 'Getting the forecast for {location}…',
+    'notice.outlookFailed': 'Some days have no outlook: {message}',
+
+    'backfill.title': 'Adding past weather to daily notes',
+    'backfill.progress': '{done} of {total} notes',
+    'backfill.summary': '{written} written, {failed} failed',
+    'backfill.stopped': 'Stopped. Run the command again later to continue.',
+    'backfill.done': 'Done: {summary}. Notes without weather are picked up again on the next run.',
+    'backfill.cancel': 'Cancel',
+    'backfill.close': 'Close',
+
+    'rule.temp': 'Temperature',
+    'rule.feelslike': 'Feels like',
+    'rule.humidity': 'Humidity',
+    'rule.uv': 'UV index',
+    'rule.wind': 'Wind',
+    'rule.aqi': 'Air quality index',
+    'rule.maxtemp': 'High temperature',
+    'rule.mintemp': 'Low temperature',
+    'rule.chance_of_rain': 'Chance of rain',
+    'rule.chance_of_snow': 'Chance of snow',
+    'rule.totalprecip': 'Precipitation',
+    'rule.day_uv': 'UV index (day)',
+    'rule.maxwind': 'Max wind',
+    'rule.today': 'today',
+    'rule.tomorrow': 'tomorrow',
+    'rule.inDays': 'in {days} days',
+    'rule.fired': '{location}: {rule} (now {value})',
+
+    'trip.title': 'Trip forecast',
+    'trip.location': 'Location',
+    'trip.locationDesc': "A saved location's name or any place the provider understands",
+    'trip.start': 'First day',
+    'trip.end': 'Last day',
+    'trip.insert': 'Insert',
+    'trip.noLocation': 'Enter a location',
+    'trip.invalidDates': 'The last day must not be before the first day',
+    'trip.pastDates': 'The trip must not start in the past',
+    'trip.tooLong': 'A trip can be at most {days} days long',
+    'trip.date': 'Date',
+    'trip.weather': 'Weather',
+    'trip.highLow': 'High / Low',
+    'trip.precipChance': 'Precipitation',
+    'trip.wind': 'Wind',
+    'trip.reliability': 'Note',
+    'trip.uncertain': 'uncertain',
+    'trip.outlook': 'long-range estimate',
+    'trip.noForecast': 'no forecast yet',
+
+    'trends.title': 'Weather trends',
+    'trends.temperature': 'Temperature',
+    'trends.wind': 'Wind',
+    'trends.airQuality': 'Air quality',
+    'trends.range.24h': 'Last 24 hours',
+    'trends.range.7d': 'Last 7 days',
+    'trends.range.30d': 'Last 30 days',
+    'trends.range.1y': 'Last year',
+    'trends.notRecording': 'Turn on Record Weather History in the settings to collect data for the charts.',
+    'trends.noData': 'Nothing recorded for the chosen locations in this period yet.',
+
+    'section.header': 'Location',
+    'section.alerts': 'Weather alerts',
+    'section.current': 'Current weather',
+    'section.airquality': 'Air quality',
+    'section.astro': 'Sun and moon',
+    'section.hourly': 'Next 24 hours',
+    'section.forecast': 'Forecast',
+    'section.footer': 'Local time',
+    'layout.full': 'Full layout',
+    'layout.compact': 'Compact layout',
+    'layout.minimal': 'Minimal layout',
+
+    'search.placeholder': 'Place name, postcode, airport code or lat,lon',
+    'search.noResults': 'No places found',
+    'search.coordinates': 'Coordinates',
+
+    'settings.language': 'Language',
+    'settings.languageDesc': 'Language of the weather descriptions. The plugin itself is translated into English, German, French and Spanish.',
+    'settings.automatic': 'Automatic',
+    'settings.units': 'Units',
+    'settings.unitsDesc': 'Pick a preset or set each unit below',
+    'settings.metric': 'Metric',
+    'settings.imperial': 'Imperial',
+    'settings.uk': 'UK (°C, mph, miles)',
+    'settings.custom': 'Custom',
+    'settings.temperature': 'Temperature',
+    'settings.windSpeed': 'Wind speed',
+    'settings.precipitation': 'Precipitation',
+    'settings.pressure': 'Pressure',
+    'settings.visibility': 'Visibility',
+    'settings.timeFormat': 'Time Format',
+    'settings.timeFormatDesc': 'Automatic follows the language of Obsidian',
+    'settings.24h': '24-hour',
+    'settings.12h': '12-hour',
+    'settings.sections': 'Sections',
+    'settings.sectionsDesc': 'Choose which sections the weather view and the status bar popover show, and in what order.',
+    'settings.moveUp': 'Move up',
+    'settings.moveDown': 'Move down',
+    'settings.aqiStandard': 'Air Quality Index',
+    'settings.aqiStandardDesc': 'Standard used for the air quality index, its colours and the per-pollutant breakdown',
+    'settings.iconStyle': 'Icons',
+    'settings.iconStyleDesc': 'Bundled icons work offline and follow the theme colours, provider images are loaded from the weather service',
+    'settings.bundledIcons': 'Bundled',
+    'settings.providerIcons': 'Provider images',
+    'settings.locations': 'Locations',
+    'settings.location': 'Location {number}',
+    'settings.locationDesc': 'Name, place and unit override',
+    'settings.name': 'Name',
+    'settings.searchLocation': 'Search…',
+    'settings.noPlace': 'No place chosen',
+    'settings.defaultUnit': 'Default unit',
+    'settings.removeLocation': 'Remove location',
+    'settings.addLocation': 'Add location',
+    'settings.followActiveNote': 'Follow the Active Note',
+    'settings.followActiveNoteDesc': "Show the weather of the place in the active note's properties, such as a trip or site-visit note. Notes without a place show the active location.",
+    'settings.noteLocationProperty': 'Location Property',
+    'settings.noteLocationPropertyDesc': "Note property with the place: a saved location's name, a place name, a postcode or coordinates like 51.5,-0.12 or [51.5, -0.12]",
+    'settings.provider': 'Weather Provider',
+    'settings.providerDesc': 'Where the weather data comes from',
+    'settings.apiKey': 'API Key',
+    'settings.apiKeyDesc': 'Set your {site} API Key',
+    'settings.enterApiKey': 'Enter your API Key',
+    'settings.refreshRate': 'Refresh Rate',
+    'settings.refreshRateDesc': 'Set the refresh rate in minutes. Enter 999 to disable the refresh.',
+    'settings.enterRefreshRate': 'Enter the refresh rate',
+    'settings.forecastDays': 'Forecast Days',
+    'settings.forecastDaysDesc': 'Number of days to forecast, up to {max} with this provider',
+    'settings.alertNotifications': 'Weather Alert Notifications',
+    'settings.alertNotificationsDesc': 'Show a notice when a new government weather alert is issued for a saved location (WeatherAPI.com only)',
+    'settings.rules': 'Weather Rules',
+    'settings.rulesDesc': 'Get a notice, and optionally a line in a note, when the weather of a saved location crosses a threshold. Values use the units shown for the location.',
+    'settings.enabled': 'Enabled',
+    'settings.appendToNote': 'Append to note (optional)',
+    'settings.ruleDayPastForecast': '{day} (past the forecast)',
+    'settings.removeRule': 'Remove rule',
+    'settings.addRule': 'Add rule',
+    'settings.ruleCooldown': 'Rule Cooldown',
+    'settings.ruleCooldownDesc': 'Hours before the same rule can fire again for a location',
+    'settings.offlineCache': 'Offline Cache',
+    'settings.offlineCacheDesc': 'Hours to keep showing the last response while the weather cannot be refreshed',
+    'settings.insertTemplate': 'Insert Template',
+    'settings.insertTemplateDesc': 'Used by the "Insert current weather" command. Placeholders: {placeholders}. Add a modifier after a pipe, e.g. {examples}.',
+    'settings.showStatusBar': 'Show in Status Bar',
+    'settings.showStatusBarDesc': 'Show the weather of the active location in the status bar. Hover it for the current conditions, click it to open the weather view.',
+    'settings.statusBarTemplate': 'Status Bar Format',
+    'settings.statusBarTemplateDesc': 'Uses the same placeholders as the insert template, e.g. {{icon}}, {{temp}}, {{humidity}} or {{rain}}',
+    'settings.recordHistory': 'Record Weather History',
+    'settings.recordHistoryDesc': 'Append temperature, humidity, wind, UV, air quality and precipitation to a CSV file in the vault after every refresh. The Weather trends view draws charts from it.',
+    'settings.historyFile': 'History File',
+    'settings.historyFileDesc': 'Path of the CSV file in the vault',
+    'settings.stampDailyNotes': 'Add Weather to Daily Notes',
+    'settings.stampDailyNotesDesc': "Write a weather snapshot into the properties of today's daily note when it is created",
+    'settings.property': '{name} Property',
+    'settings.propertyDesc': 'Leave empty to skip this value',
+    'settings.highTemperature': 'High temperature',
+    'settings.lowTemperature': 'Low temperature',
+    'settings.condition': 'Condition',
+    'settings.airQualityIndex': 'Air quality index',
+    'settings.sunrise': 'Sunrise',
+    'settings.sunset': 'Sunset',
+    'settings.locationName': 'Location',
+};
+
+export default en;
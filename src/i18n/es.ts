@@ -0,0 +1,299 @@
+import type { Translation } from '.';
+
+const es: Translation = {
+    'view.title': 'Obsidian Weather',
+    'view.refresh': 'Actualizar',
+    'view.retry': 'Reintentar',
+    'view.humidity': 'Humedad:',
+    'view.uv': 'UV: {value}',
+    'view.wind': 'Viento',
+    'view.precipitation': 'Precipitación',
+    'view.pressure': 'Presión',
+    'view.visibility': 'Visibilidad',
+    'view.staleSince': 'desactualizado desde las {time}',
+    'view.lastUpdated': 'Última actualización {time}',
+    'view.today': 'HOY',
+    'view.alertUntil': 'Hasta {time}',
+    'view.noLocation': 'No hay ubicación para este bloque del tiempo',
+    'view.loadFailed': 'No se pudo cargar el tiempo de «{query}»',
+
+    'forecast.condition': 'Estado',
+    'forecast.average': 'Media',
+    'forecast.precipitation': 'Precipitación',
+    'forecast.snow': 'Nieve',
+    'forecast.humidity': 'Humedad',
+    'forecast.visibility': 'Visibilidad',
+    'forecast.uv': 'UV',
+    'forecast.sunrise': 'Amanecer',
+    'forecast.sunset': 'Atardecer',
+    'forecast.moonrise': 'Salida de la luna',
+    'forecast.moonset': 'Puesta de la luna',
+    'forecast.moon': 'Luna',
+
+    'astro.dayLength': 'Duración del día',
+    'astro.change': '{change} respecto a ayer',
+    'astro.hoursMinutes': '{hours} h {minutes} min',
+    'astro.minutesSeconds': '{minutes} min {seconds} s',
+    'astro.goldenHour': 'Hora dorada',
+    'astro.blueHour': 'Hora azul',
+    'astro.moon': '{phase}, iluminada al {percent} %',
+
+    'moon.new': 'Luna nueva',
+    'moon.waxingCrescent': 'Luna creciente',
+    'moon.firstQuarter': 'Cuarto creciente',
+    'moon.waxingGibbous': 'Gibosa creciente',
+    'moon.full': 'Luna llena',
+    'moon.waningGibbous': 'Gibosa menguante',
+    'moon.lastQuarter': 'Cuarto menguante',
+    'moon.waningCrescent': 'Luna menguante',
+
+    'airQuality.good': 'Buena',
+    'airQuality.moderate': 'Moderada',
+    'airQuality.sensitive': 'Dañina para grupos sensibles',
+    'airQuality.unhealthy': 'Dañina',
+    'airQuality.veryUnhealthy': 'Muy dañina',
+    'airQuality.hazardous': 'Peligrosa',
+    'airQuality.veryLow': 'Muy bajo',
+    'airQuality.low': 'Bajo',
+    'airQuality.medium': 'Medio',
+    'airQuality.high': 'Alto',
+    'airQuality.veryHigh': 'Muy alto',
+    'airQuality.lowRisk': 'Riesgo bajo',
+    'airQuality.moderateRisk': 'Riesgo moderado',
+    'airQuality.highRisk': 'Riesgo alto',
+    'airQuality.veryHighRisk': 'Riesgo muy alto',
+    'airQuality.pollutants': 'Contaminantes',
+    'airQuality.mainPollutant': 'Sobre todo {pollutant}',
+
+    'uv.low': 'Bajo',
+    'uv.moderate': 'Moderado',
+    'uv.high': 'Alto',
+    'uv.veryHigh': 'Muy alto',
+    'uv.extreme': 'Extremo',
+
+    'error.config': 'El tiempo no está configurado',
+    'error.auth': 'Clave API no válida',
+    'error.location': 'Ubicación no encontrada',
+    'error.quota': 'Límite de la API alcanzado',
+    'error.network': 'No se puede acceder al servicio del tiempo',
+    'error.unknown': 'No se pudo cargar el tiempo',
+    'error.noLocation': 'Añade una ubicación en los ajustes del plugin',
+    'error.noApiKey': 'Añade tu clave API de {provider} en los ajustes del plugin',
+    'error.unreachable': 'No se pudo contactar con el servicio del tiempo',
+    'error.status': 'El servicio del tiempo respondió con el estado {status}',
+    'error.placeNotFound': 'No se encontró la ubicación «{query}»',
+    'error.noHistory': 'Aún no hay historial para el {date}',
+    'error.noClimate': 'No hay datos climáticos para el {date}',
+    'error.noWeatherFor': 'No hay tiempo para el {date}',
+
+    'command.open': 'Abrir el tiempo',
+    'command.refresh': 'Actualizar el tiempo',
+    'command.insert': 'Insertar el tiempo actual',
+    'command.backfill': 'Añadir el tiempo pasado a las notas diarias',
+    'command.stamp': 'Añadir el tiempo a las propiedades de la nota',
+    'command.planTrip': 'Insertar el pronóstico del viaje',
+    'command.openTrends': 'Abrir el historial del tiempo',
+
+    'notice.stampFailed': 'No se pudo añadir el tiempo a {note}',
+    'notice.noHistory': '{provider} no ofrece el tiempo pasado',
+    'notice.setUpFirst': 'Configura primero una ubicación y una clave API',
+    'notice.allHaveWeather': 'Todas las notas diarias ya tienen el tiempo',
+    'notice.loadFailed': 'No se pudo cargar el tiempo de {location}',
+    'notice.planningTrip': 'Cargando el pronóstico para {location}…',
+    'notice.outlookFailed': 'Algunos días no tienen previsión: {message}',
+
+    'backfill.title': 'Añadiendo el tiempo pasado a las notas diarias',
+    'backfill.progress': '{done} de {total} notas',
+    'backfill.summary': '{written} escritas, {failed} con error',
+    'backfill.stopped': 'Detenido. Vuelve a ejecutar el comando más tarde para continuar.',
+    'backfill.done': 'Listo: {summary}. Las notas sin tiempo se retoman en la próxima ejecución.',
+    'backfill.cancel': 'Cancelar',
+    'backfill.close': 'Cerrar',
+
+    'rule.temp': 'Temperatura',
+    'rule.feelslike': 'Sensación térmica',
+    'rule.humidity': 'Humedad',
+    'rule.uv': 'Índice UV',
+    'rule.wind': 'Viento',
+    'rule.aqi': 'Índice de calidad del aire',
+    'rule.maxtemp': 'Temperatura máxima',
+    'rule.mintemp': 'Temperatura mínima',
+    'rule.chance_of_rain': 'Probabilidad de lluvia',
+    'rule.chance_of_snow': 'Probabilidad de nieve',
+    'rule.totalprecip': 'Precipitación',
+    'rule.day_uv': 'Índice UV (día)',
+    'rule.maxwind': 'Viento máximo',
+    'rule.today': 'hoy',
+    'rule.tomorrow': 'mañana',
+    'rule.inDays': 'en {days} días',
+    'rule.fired': '{location}: {rule} (ahora {value})',
+
+    'trip.title': 'Pronóstico del viaje',
+    'trip.location': 'Ubicación',
+    'trip.locationDesc': 'Nombre de una ubicación guardada o cualquier lugar que entienda el proveedor',
+    'trip.start': 'Primer día',
+    'trip.end': 'Último día',
+    'trip.insert': 'Insertar',
+    'trip.noLocation': 'Introduce una ubicación',
+    'trip.invalidDates': 'El último día no puede ser anterior al primero',
+    'trip.pastDates': 'El viaje no puede empezar en el pasado',
+    'trip.tooLong': 'Un viaje puede durar como máximo {days} días',
+    'trip.date': 'Fecha',
+    'trip.weather': 'Tiempo',
+    'trip.highLow': 'Máx. / Mín.',
+    'trip.precipChance': 'Precipitación',
+    'trip.wind': 'Viento',
+    'trip.reliability': 'Nota',
+    'trip.uncertain': 'incierto',
+    'trip.outlook': 'estimación a largo plazo',
+    'trip.noForecast': 'aún sin pronóstico',
+
+    'trends.title': 'Historial del tiempo',
+    'trends.temperature': 'Temperatura',
+    'trends.wind': 'Viento',
+    'trends.airQuality': 'Calidad del aire',
+    'trends.range.24h': 'Últimas 24 horas',
+    'trends.range.7d': 'Últimos 7 días',
+    'trends.range.30d': 'Últimos 30 días',
+    'trends.range.1y': 'Último año',
+    'trends.notRecording': 'Activa «Registrar el historial del tiempo» en los ajustes para reunir datos para los gráficos.',
+    'trends.noData': 'Aún no hay nada registrado para las ubicaciones elegidas en este periodo.',
+
+    'section.header': 'Ubicación',
+    'section.alerts': 'Avisos meteorológicos',
+    'section.current': 'Tiempo actual',
+    'section.airquality': 'Calidad del aire',
+    'section.astro': 'Sol y luna',
+    'section.hourly': 'Próximas 24 horas',
+    'section.forecast': 'Pronóstico',
+    'section.footer': 'Hora local',
+    'layout.full': 'Diseño completo',
+    'layout.compact': 'Diseño compacto',
+    'layout.minimal': 'Diseño mínimo',
+
+    'search.placeholder': 'Nombre del lugar, código postal, código de aeropuerto o lat,lon',
+    'search.noResults': 'No se encontraron lugares',
+    'search.coordinates': 'Coordenadas',
+
+    'settings.language': 'Idioma',
+    'settings.languageDesc': 'Idioma de las descripciones del tiempo. El plugin está traducido al inglés, alemán, francés y español.',
+    'settings.automatic': 'Automático',
+    'settings.units': 'Unidades',
+    'settings.unitsDesc': 'Elige un ajuste predefinido o cada unidad abajo',
+    'settings.metric': 'Métrico',
+    'settings.imperial': 'Imperial',
+    'settings.uk': 'Reino Unido (°C, mph, millas)',
+    'settings.custom': 'Personalizado',
+    'settings.temperature': 'Temperatura',
+    'settings.windSpeed': 'Velocidad del viento',
+    'settings.precipitation': 'Precipitación',
+    'settings.pressure': 'Presión',
+    'settings.visibility': 'Visibilidad',
+    'settings.timeFormat': 'Formato de hora',
+    'settings.timeFormatDesc': 'Automático sigue el idioma de Obsidian',
+    'settings.24h': '24 horas',
+    'settings.12h': '12 horas',
+    'settings.sections': 'Secciones',
+    'settings.sectionsDesc': 'Elige qué secciones muestran la vista del tiempo y la ventana de la barra de estado, y en qué orden.',
+    'settings.moveUp': 'Subir',
+    'settings.moveDown': 'Bajar',
+    'settings.aqiStandard': 'Índice de calidad del aire',
+    'settings.aqiStandardDesc': 'Estándar del índice de calidad del aire, sus colores y el desglose por contaminante',
+    'settings.iconStyle': 'Iconos',
+    'settings.iconStyleDesc': 'Los iconos incluidos funcionan sin conexión y siguen los colores del tema, las imágenes del proveedor se cargan desde el servicio meteorológico',
+    'settings.bundledIcons': 'Incluidos',
+    'settings.providerIcons': 'Imágenes del proveedor',
+    'settings.locations': 'Ubicaciones',
+    'settings.location': 'Ubicación {number}',
+    'settings.locationDesc': 'Nombre, lugar y unidad propia',
+    'settings.name': 'Nombre',
+    'settings.searchLocation': 'Buscar…',
+    'settings.noPlace': 'Ningún lugar elegido',
+    'settings.defaultUnit': 'Unidad predeterminada',
+    'settings.removeLocation': 'Quitar ubicación',
+    'settings.addLocation': 'Añadir ubicación',
+    'settings.followActiveNote': 'Seguir la nota activa',
+    'settings.followActiveNoteDesc': 'Muestra el tiempo del lugar indicado en las propiedades de la nota activa, como una nota de viaje o de visita. Las notas sin lugar muestran la ubicación activa.',
+    'settings.noteLocationProperty': 'Propiedad de ubicación',
+    'settings.noteLocationPropertyDesc': 'Propiedad de la nota con el lugar: nombre de una ubicación guardada, nombre de lugar, código postal o coordenadas como 51.5,-0.12 o [51.5, -0.12]',
+    'settings.provider': 'Servicio del tiempo',
+    'settings.providerDesc': 'De dónde vienen los datos del tiempo',
+    'settings.apiKey': 'Clave API',
+    'settings.apiKeyDesc': 'Tu clave API de {site}',
+    'settings.enterApiKey': 'Introduce tu clave API',
+    'settings.refreshRate': 'Frecuencia de actualización',
+    'settings.refreshRateDesc': 'Frecuencia en minutos. Introduce 999 para desactivar la actualización.',
+    'settings.enterRefreshRate': 'Introduce la frecuencia',
+    'settings.forecastDays': 'Días de previsión',
+    'settings.forecastDaysDesc': 'Número de días de previsión, hasta {max} con este servicio',
+    'settings.alertNotifications': 'Avisos de alertas meteorológicas',
+    'settings.alertNotificationsDesc': 'Muestra un aviso cuando se emite una nueva alerta meteorológica oficial para una ubicación guardada (solo WeatherAPI.com)',
+    'settings.rules': 'Reglas del tiempo',
+    'settings.rulesDesc': 'Recibe un aviso, y opcionalmente una línea en una nota, cuando el tiempo de una ubicación guardada supera un umbral. Los valores usan las unidades de la ubicación.',
+    'settings.enabled': 'Activada',
+    'settings.appendToNote': 'Añadir a la nota (opcional)',
+    'settings.ruleDayPastForecast': '{day} (fuera del pronóstico)',
+    'settings.removeRule': 'Quitar regla',
+    'settings.addRule': 'Añadir regla',
+    'settings.ruleCooldown': 'Pausa entre avisos',
+    'settings.ruleCooldownDesc': 'Horas antes de que la misma regla pueda volver a activarse para una ubicación',
+    'settings.offlineCache': 'Caché sin conexión',
+    'settings.offlineCacheDesc': 'Horas durante las que se sigue mostrando la última respuesta cuando no se puede actualizar el tiempo',
+    'settings.insertTemplate': 'Plantilla de inserción',
+    'settings.insertTemplateDesc': 'La usa el comando «Insertar el tiempo actual». Marcadores: {placeholders}. Añade un modificador tras una barra vertical, p. ej. {examples}.',
+    'settings.showStatusBar': 'Mostrar en la barra de estado',
+    'settings.showStatusBarDesc': 'Muestra el tiempo de la ubicación activa en la barra de estado. Pasa el ratón por encima para ver las condiciones actuales y haz clic para abrir la vista del tiempo.',
+    'settings.statusBarTemplate': 'Formato de la barra de estado',
+    'settings.statusBarTemplateDesc': 'Usa los mismos marcadores que la plantilla de inserción, p. ej. {{icon}}, {{temp}}, {{humidity}} o {{rain}}',
+    'settings.recordHistory': 'Registrar el historial del tiempo',
+    'settings.recordHistoryDesc': 'Añade tras cada actualización la temperatura, la humedad, el viento, el UV, la calidad del aire y la precipitación a un archivo CSV de la bóveda. La vista Historial del tiempo dibuja gráficos con ellos.',
+    'settings.historyFile': 'Archivo del historial',
+    'settings.historyFileDesc': 'Ruta del archivo CSV en la bóveda',
+    'settings.stampDailyNotes': 'Añadir el tiempo a las notas diarias',
+    'settings.stampDailyNotesDesc': 'Escribe un resumen del tiempo en las propiedades de la nota diaria de hoy al crearla',
+    'settings.property': 'Propiedad {name}',
+    'settings.propertyDesc': 'Déjalo vacío para omitir este valor',
+    'settings.highTemperature': 'Temperatura máxima',
+    'settings.lowTemperature': 'Temperatura mínima',
+    'settings.condition': 'Estado',
+    'settings.airQualityIndex': 'Índice de calidad del aire',
+    'settings.sunrise': 'Amanecer',
+    'settings.sunset': 'Atardecer',
+    'settings.locationName': 'Ubicación',
+
+    'condition.1000': 'Soleado',
+    'condition.1000.night': 'Despejado',
+    'condition.1003': 'Parcialmente nublado',
+    'condition.1006': 'Nublado',
+    'condition.1009': 'Cubierto',
+    'condition.1030': 'Neblina',
+    'condition.1087': 'Posibles tormentas',
+    'condition.1135': 'Niebla',
+    'condition.1147': 'Niebla helada',
+    'condition.1150': 'Llovizna ligera aislada',
+    'condition.1153': 'Llovizna ligera',
+    'condition.1168': 'Llovizna helada',
+    'condition.1171': 'Llovizna helada intensa',
+    'condition.1183': 'Lluvia ligera',
+    'condition.1189': 'Lluvia moderada',
+    'condition.1195': 'Lluvia intensa',
+    'condition.1198': 'Lluvia helada ligera',
+    'condition.1201': 'Lluvia helada moderada o intensa',
+    'condition.1204': 'Aguanieve ligera',
+    'condition.1213': 'Nevada ligera',
+    'condition.1219': 'Nevada moderada',
+    'condition.1225': 'Nevada intensa',
+    'condition.1237': 'Granizo fino',
+    'condition.1240': 'Chubasco ligero',
+    'condition.1243': 'Chubasco moderado o intenso',
+    'condition.1246': 'Chubasco torrencial',
+    'condition.1249': 'Chubascos ligeros de aguanieve',
+    'condition.1252': 'Chubascos de aguanieve moderados o intensos',
+    'condition.1255': 'Chubascos ligeros de nieve',
+    'condition.1258': 'Chubascos de nieve moderados o intensos',
+    'condition.1273': 'Lluvia ligera aislada con tormenta',
+    'condition.1276': 'Lluvia moderada o intensa con tormenta',
+    'condition.1282': 'Nevada moderada o intensa con tormenta',
+};
+
+export default es;
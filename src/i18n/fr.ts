@@ -0,0 +1,299 @@
+import type { Translation } from '.';
+
+const fr: Translation = {
+    'view.title': 'Obsidian Weather',
+    'view.refresh': 'Actualiser',
+    'view.retry': 'Réessayer',
+    'view.humidity': 'Humidité :',
+    'view.uv': 'UV : {value}',
+    'view.wind': 'Vent',
+    'view.precipitation': 'Précipitations',
+    'view.pressure': 'Pression',
+    'view.visibility': 'Visibilité',
+    'view.staleSince': 'pas à jour depuis {time}',
+    'view.lastUpdated': 'Dernière mise à jour {time}',
+    'view.today': "AUJOURD'HUI",
+    'view.alertUntil': "Jusqu'à {time}",
+    'view.noLocation': "Aucun lieu n'est défini pour ce bloc météo",
+    'view.loadFailed': 'Impossible de charger la météo pour « {query} »',
+
+    'forecast.condition': 'Conditions',
+    'forecast.average': 'Moyenne',
+    'forecast.precipitation': 'Précipitations',
+    'forecast.snow': 'Neige',
+    'forecast.humidity': 'Humidité',
+    'forecast.visibility': 'Visibilité',
+    'forecast.uv': 'UV',
+    'forecast.sunrise': 'Lever du soleil',
+    'forecast.sunset': 'Coucher du soleil',
+    'forecast.moonrise': 'Lever de la lune',
+    'forecast.moonset': 'Coucher de la lune',
+    'forecast.moon': 'Lune',
+
+    'astro.dayLength': 'Durée du jour',
+    'astro.change': "{change} par rapport à hier",
+    'astro.hoursMinutes': '{hours} h {minutes}',
+    'astro.minutesSeconds': '{minutes} min {seconds} s',
+    'astro.goldenHour': 'Heure dorée',
+    'astro.blueHour': 'Heure bleue',
+    'astro.moon': '{phase}, éclairée à {percent} %',
+
+    'moon.new': 'Nouvelle lune',
+    'moon.waxingCrescent': 'Premier croissant',
+    'moon.firstQuarter': 'Premier quartier',
+    'moon.waxingGibbous': 'Gibbeuse croissante',
+    'moon.full': 'Pleine lune',
+    'moon.waningGibbous': 'Gibbeuse décroissante',
+    'moon.lastQuarter': 'Dernier quartier',
+    'moon.waningCrescent': 'Dernier croissant',
+
+    'airQuality.good': 'Bonne',
+    'airQuality.moderate': 'Moyenne',
+    'airQuality.sensitive': 'Mauvaise pour les personnes sensibles',
+    'airQuality.unhealthy': 'Mauvaise',
+    'airQuality.veryUnhealthy': 'Très mauvaise',
+    'airQuality.hazardous': 'Dangereuse',
+    'airQuality.veryLow': 'Très faible',
+    'airQuality.low': 'Faible',
+    'airQuality.medium': 'Moyen',
+    'airQuality.high': 'Élevé',
+    'airQuality.veryHigh': 'Très élevé',
+    'airQuality.lowRisk': 'Risque faible',
+    'airQuality.moderateRisk': 'Risque modéré',
+    'airQuality.highRisk': 'Risque élevé',
+    'airQuality.veryHighRisk': 'Risque très élevé',
+    'airQuality.pollutants': 'Polluants',
+    'airQuality.mainPollutant': 'Surtout {pollutant}',
+
+    'uv.low': 'Faible',
+    'uv.moderate': 'Modéré',
+    'uv.high': 'Élevé',
+    'uv.veryHigh': 'Très élevé',
+    'uv.extreme': 'Extrême',
+
+    'error.config': "La météo n'est pas configurée",
+    'error.auth': 'Clé API invalide',
+    'error.location': 'Lieu introuvable',
+    'error.quota': "Limite de l'API atteinte",
+    'error.network': 'Service météo injoignable',
+    'error.unknown': 'Impossible de charger la météo',
+    'error.noLocation': 'Ajoutez un lieu dans les réglages du plugin',
+    'error.noApiKey': 'Ajoutez votre clé API {provider} dans les réglages du plugin',
+    'error.unreachable': 'Impossible de joindre le service météo',
+    'error.status': 'Le service météo a répondu avec le statut {status}',
+    'error.placeNotFound': 'Lieu « {query} » introuvable',
+    'error.noHistory': "Pas encore d'historique pour le {date}",
+    'error.noClimate': 'Pas de données climatiques pour le {date}',
+    'error.noWeatherFor': 'Pas de météo pour le {date}',
+
+    'command.open': 'Ouvrir la météo',
+    'command.refresh': 'Actualiser la météo',
+    'command.insert': 'Insérer la météo actuelle',
+    'command.backfill': 'Ajouter la météo passée aux notes quotidiennes',
+    'command.stamp': 'Ajouter la météo aux propriétés de la note',
+    'command.planTrip': 'Insérer les prévisions du voyage',
+    'command.openTrends': "Ouvrir l'historique météo",
+
+    'notice.stampFailed': "Impossible d'ajouter la météo à {note}",
+    'notice.noHistory': '{provider} ne fournit pas la météo passée',
+    'notice.setUpFirst': "Configurez d'abord un lieu et une clé API",
+    'notice.allHaveWeather': 'Toutes les notes quotidiennes ont déjà la météo',
+    'notice.loadFailed': 'Impossible de charger la météo pour {location}',
+    'notice.planningTrip': 'Chargement des prévisions pour {location}…',
+    'notice.outlookFailed': "Certains jours n'ont pas de tendance : {message}",
+
+    'backfill.title': 'Ajout de la météo passée aux notes quotidiennes',
+    'backfill.progress': '{done} notes sur {total}',
+    'backfill.summary': '{written} écrites, {failed} en échec',
+    'backfill.stopped': 'Arrêté. Relancez la commande plus tard pour continuer.',
+    'backfill.done': 'Terminé : {summary}. Les notes sans météo seront reprises au prochain lancement.',
+    'backfill.cancel': 'Annuler',
+    'backfill.close': 'Fermer',
+
+    'rule.temp': 'Température',
+    'rule.feelslike': 'Ressenti',
+    'rule.humidity': 'Humidité',
+    'rule.uv': 'Indice UV',
+    'rule.wind': 'Vent',
+    'rule.aqi': 'Indice de qualité de l\'air',
+    'rule.maxtemp': 'Température maximale',
+    'rule.mintemp': 'Température minimale',
+    'rule.chance_of_rain': 'Risque de pluie',
+    'rule.chance_of_snow': 'Risque de neige',
+    'rule.totalprecip': 'Précipitations',
+    'rule.day_uv': 'Indice UV (jour)',
+    'rule.maxwind': 'Vent maximal',
+    'rule.today': "aujourd'hui",
+    'rule.tomorrow': 'demain',
+    'rule.inDays': 'dans {days} jours',
+    'rule.fired': '{location} : {rule} (actuellement {value})',
+
+    'trip.title': 'Prévisions du voyage',
+    'trip.location': 'Lieu',
+    'trip.locationDesc': "Nom d'un lieu enregistré ou tout lieu compris par le fournisseur",
+    'trip.start': 'Premier jour',
+    'trip.end': 'Dernier jour',
+    'trip.insert': 'Insérer',
+    'trip.noLocation': 'Saisissez un lieu',
+    'trip.invalidDates': 'Le dernier jour ne peut pas précéder le premier',
+    'trip.pastDates': 'Le voyage ne peut pas commencer dans le passé',
+    'trip.tooLong': 'Un voyage dure au plus {days} jours',
+    'trip.date': 'Date',
+    'trip.weather': 'Météo',
+    'trip.highLow': 'Max. / Min.',
+    'trip.precipChance': 'Précipitations',
+    'trip.wind': 'Vent',
+    'trip.reliability': 'Remarque',
+    'trip.uncertain': 'incertain',
+    'trip.outlook': 'estimation à long terme',
+    'trip.noForecast': 'pas encore de prévision',
+
+    'trends.title': 'Historique météo',
+    'trends.temperature': 'Température',
+    'trends.wind': 'Vent',
+    'trends.airQuality': "Qualité de l'air",
+    'trends.range.24h': 'Dernières 24 heures',
+    'trends.range.7d': '7 derniers jours',
+    'trends.range.30d': '30 derniers jours',
+    'trends.range.1y': 'Dernière année',
+    'trends.notRecording': "Activez « Enregistrer l'historique météo » dans les paramètres pour collecter les données des graphiques.",
+    'trends.noData': "Rien n'a encore été enregistré pour les lieux choisis sur cette période.",
+
+    'section.header': 'Lieu',
+    'section.alerts': 'Alertes météo',
+    'section.current': 'Météo actuelle',
+    'section.airquality': "Qualité de l'air",
+    'section.astro': 'Soleil et lune',
+    'section.hourly': 'Prochaines 24 heures',
+    'section.forecast': 'Prévisions',
+    'section.footer': 'Heure locale',
+    'layout.full': 'Disposition complète',
+    'layout.compact': 'Disposition compacte',
+    'layout.minimal': 'Disposition minimale',
+
+    'search.placeholder': 'Nom du lieu, code postal, code aéroport ou lat,lon',
+    'search.noResults': 'Aucun lieu trouvé',
+    'search.coordinates': 'Coordonnées',
+
+    'settings.language': 'Langue',
+    'settings.languageDesc': 'Langue des descriptions météo. Le plugin lui-même est traduit en anglais, allemand, français et espagnol.',
+    'settings.automatic': 'Automatique',
+    'settings.units': 'Unités',
+    'settings.unitsDesc': 'Choisissez un préréglage ou chaque unité ci-dessous',
+    'settings.metric': 'Métrique',
+    'settings.imperial': 'Impérial',
+    'settings.uk': 'Royaume-Uni (°C, mph, miles)',
+    'settings.custom': 'Personnalisé',
+    'settings.temperature': 'Température',
+    'settings.windSpeed': 'Vitesse du vent',
+    'settings.precipitation': 'Précipitations',
+    'settings.pressure': 'Pression',
+    'settings.visibility': 'Visibilité',
+    'settings.timeFormat': "Format de l'heure",
+    'settings.timeFormatDesc': "Automatique suit la langue d'Obsidian",
+    'settings.24h': '24 heures',
+    'settings.12h': '12 heures',
+    'settings.sections': 'Sections',
+    'settings.sectionsDesc': "Choisissez les sections affichées par la vue météo et la fenêtre de la barre d'état, et leur ordre.",
+    'settings.moveUp': 'Monter',
+    'settings.moveDown': 'Descendre',
+    'settings.aqiStandard': "Indice de qualité de l'air",
+    'settings.aqiStandardDesc': "Norme utilisée pour l'indice de qualité de l'air, ses couleurs et le détail par polluant",
+    'settings.iconStyle': 'Icônes',
+    'settings.iconStyleDesc': 'Les icônes intégrées fonctionnent hors ligne et suivent les couleurs du thème, les images du fournisseur sont chargées depuis le service météo',
+    'settings.bundledIcons': 'Intégrées',
+    'settings.providerIcons': 'Images du fournisseur',
+    'settings.locations': 'Lieux',
+    'settings.location': 'Lieu {number}',
+    'settings.locationDesc': 'Nom, lieu et unité propre',
+    'settings.name': 'Nom',
+    'settings.searchLocation': 'Rechercher…',
+    'settings.noPlace': 'Aucun lieu choisi',
+    'settings.defaultUnit': 'Unité par défaut',
+    'settings.removeLocation': 'Supprimer le lieu',
+    'settings.addLocation': 'Ajouter un lieu',
+    'settings.followActiveNote': 'Suivre la note active',
+    'settings.followActiveNoteDesc': 'Affiche la météo du lieu indiqué dans les propriétés de la note active, comme une note de voyage ou de visite. Les notes sans lieu affichent le lieu actif.',
+    'settings.noteLocationProperty': 'Propriété du lieu',
+    'settings.noteLocationPropertyDesc': "Propriété de la note contenant le lieu : nom d'un lieu enregistré, nom de lieu, code postal ou coordonnées comme 51.5,-0.12 ou [51.5, -0.12]",
+    'settings.provider': 'Service météo',
+    'settings.providerDesc': "D'où viennent les données météo",
+    'settings.apiKey': 'Clé API',
+    'settings.apiKeyDesc': 'Votre clé API {site}',
+    'settings.enterApiKey': 'Saisissez votre clé API',
+    'settings.refreshRate': "Fréquence d'actualisation",
+    'settings.refreshRateDesc': "Fréquence en minutes. Saisissez 999 pour désactiver l'actualisation.",
+    'settings.enterRefreshRate': 'Saisissez la fréquence',
+    'settings.forecastDays': 'Jours de prévision',
+    'settings.forecastDaysDesc': "Nombre de jours de prévision, jusqu'à {max} avec ce service",
+    'settings.alertNotifications': 'Notifications des alertes météo',
+    'settings.alertNotificationsDesc': 'Affiche une notification quand une nouvelle alerte météo officielle est émise pour un lieu enregistré (WeatherAPI.com uniquement)',
+    'settings.rules': 'Règles météo',
+    'settings.rulesDesc': "Recevez une notification, et éventuellement une ligne dans une note, quand la météo d'un lieu enregistré franchit un seuil. Les valeurs utilisent les unités affichées pour le lieu.",
+    'settings.enabled': 'Activée',
+    'settings.appendToNote': 'Ajouter à la note (facultatif)',
+    'settings.ruleDayPastForecast': '{day} (après la prévision)',
+    'settings.removeRule': 'Supprimer la règle',
+    'settings.addRule': 'Ajouter une règle',
+    'settings.ruleCooldown': 'Délai entre deux déclenchements',
+    'settings.ruleCooldownDesc': 'Heures avant que la même règle puisse se déclencher à nouveau pour un lieu',
+    'settings.offlineCache': 'Cache hors ligne',
+    'settings.offlineCacheDesc': "Heures pendant lesquelles la dernière réponse reste affichée quand la météo ne peut pas être actualisée",
+    'settings.insertTemplate': "Modèle d'insertion",
+    'settings.insertTemplateDesc': 'Utilisé par la commande « Insérer la météo actuelle ». Variables : {placeholders}. Ajoutez un modificateur après une barre verticale, par ex. {examples}.',
+    'settings.showStatusBar': "Afficher dans la barre d'état",
+    'settings.showStatusBarDesc': "Affiche la météo du lieu actif dans la barre d'état. Survolez-la pour les conditions actuelles, cliquez pour ouvrir la vue météo.",
+    'settings.statusBarTemplate': "Format de la barre d'état",
+    'settings.statusBarTemplateDesc': "Utilise les mêmes variables que le modèle d'insertion, par ex. {{icon}}, {{temp}}, {{humidity}} ou {{rain}}",
+    'settings.recordHistory': "Enregistrer l'historique météo",
+    'settings.recordHistoryDesc': "Ajoute après chaque actualisation la température, l'humidité, le vent, l'UV, la qualité de l'air et les précipitations à un fichier CSV du coffre. La vue Historique météo en tire des graphiques.",
+    'settings.historyFile': "Fichier d'historique",
+    'settings.historyFileDesc': 'Chemin du fichier CSV dans le coffre',
+    'settings.stampDailyNotes': 'Ajouter la météo aux notes quotidiennes',
+    'settings.stampDailyNotesDesc': "Écrit un relevé météo dans les propriétés de la note quotidienne du jour lors de sa création",
+    'settings.property': 'Propriété {name}',
+    'settings.propertyDesc': 'Laissez vide pour ignorer cette valeur',
+    'settings.highTemperature': 'Température maximale',
+    'settings.lowTemperature': 'Température minimale',
+    'settings.condition': 'Conditions',
+    'settings.airQualityIndex': "Indice de qualité de l'air",
+    'settings.sunrise': 'Lever du soleil',
+    'settings.sunset': 'Coucher du soleil',
+    'settings.locationName': 'Lieu',
+
+    'condition.1000': 'Ensoleillé',
+    'condition.1000.night': 'Dégagé',
+    'condition.1003': 'Partiellement nuageux',
+    'condition.1006': 'Nuageux',
+    'condition.1009': 'Couvert',
+    'condition.1030': 'Brume',
+    'condition.1087': 'Risque d\'orages',
+    'condition.1135': 'Brouillard',
+    'condition.1147': 'Brouillard givrant',
+    'condition.1150': 'Bruine légère éparse',
+    'condition.1153': 'Bruine légère',
+    'condition.1168': 'Bruine verglaçante',
+    'condition.1171': 'Forte bruine verglaçante',
+    'condition.1183': 'Pluie légère',
+    'condition.1189': 'Pluie modérée',
+    'condition.1195': 'Forte pluie',
+    'condition.1198': 'Pluie verglaçante légère',
+    'condition.1201': 'Pluie verglaçante modérée ou forte',
+    'condition.1204': 'Neige fondue légère',
+    'condition.1213': 'Neige légère',
+    'condition.1219': 'Neige modérée',
+    'condition.1225': 'Forte neige',
+    'condition.1237': 'Granules de glace',
+    'condition.1240': 'Averse de pluie légère',
+    'condition.1243': 'Averse de pluie modérée ou forte',
+    'condition.1246': 'Averse de pluie torrentielle',
+    'condition.1249': 'Averses de neige fondue légères',
+    'condition.1252': 'Averses de neige fondue modérées ou fortes',
+    'condition.1255': 'Averses de neige légères',
+    'condition.1258': 'Averses de neige modérées ou fortes',
+    'condition.1273': 'Pluie légère éparse avec orage',
+    'condition.1276': 'Pluie modérée ou forte avec orage',
+    'condition.1282': 'Neige modérée ou forte avec orage',
+};
+
+export default fr;
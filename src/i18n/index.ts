@@ -0,0 +1,82 @@
+import { moment } from 'obsidian';
+import en from './en';
+import de from './de';
+import fr from './fr';
+import es from './es';
+
+export type TranslationKey = keyof typeof en;
+
+// Condition texts for providers that only send a code, keyed by weatherapi.com condition code
+type ConditionKey = `condition.${number}` | `condition.${number}.night`;
+
+export type Translation = Partial<Record<TranslationKey | ConditionKey, string>>;
+
+const TRANSLATIONS: Record<string, Translation> = { en, de, fr, es };
+
+// Languages weatherapi.com and OpenWeatherMap return condition texts in, as weatherapi.com names them
+export const LANGUAGES: Record<string, string> = {
+    ar: 'العربية',
+    bg: 'Български',
+    bn: 'বাংলা',
+    cs: 'Čeština',
+    da: 'Dansk',
+    de: 'Deutsch',
+    el: 'Ελληνικά',
+    en: 'English',
+    es: 'Español',
+    fi: 'Suomi',
+    fr: 'Français',
+    hi: 'हिन्दी',
+    hu: 'Magyar',
+    it: 'Italiano',
+    ja: '日本語',
+    ko: '한국어',
+    nl: 'Nederlands',
+    pl: 'Polski',
+    pt: 'Português',
+    ro: 'Română',
+    ru: 'Русский',
+    sk: 'Slovenčina',
+    sr: 'Српски',
+    sv: 'Svenska',
+    tr: 'Türkçe',
+    uk: 'Українська',
+    vi: 'Tiếng Việt',
+    zh: '简体中文',
+    zh_tw: '繁體中文',
+};
+
+let language = 'en';
+
+// 'auto' follows Obsidian's display language, falling back to English when no provider speaks it
+export function resolveLanguage(setting: string): string {
+    if (setting !== 'auto') return setting in LANGUAGES ? setting : 'en';
+
+    const locale = moment.locale().toLowerCase().replace('-', '_');
+    if (locale in LANGUAGES) return locale;
+    const base = locale.split('_')[0];
+    return base in LANGUAGES ? base : 'en';
+}
+
+export function setLanguage(setting: string) {
+    language = resolveLanguage(setting);
+}
+
+// The language for the providers, which may have no bundled translation of the plugin itself
+export function getLanguage(): string {
+    return language;
+}
+
+function fill(text: string, values?: Record<string, string | number>): string {
+    return values ? text.replace(/{(\w+)}/g, (match, name: string) => name in values ? String(values[name]) : match) : text;
+}
+
+// Translates a plugin string, filling {placeholders} from `values`
+export function t(key: TranslationKey, values?: Record<string, string | number>): string {
+    return fill(TRANSLATIONS[language.split('_')[0]]?.[key] ?? en[key], values);
+}
+
+export function translateCondition(code: number, isDay: boolean, lang: string): string | undefined {
+    const translation = TRANSLATIONS[lang.split('_')[0]];
+    return (!isDay && translation?.[`condition.${code}.night`]) || translation?.[`condition.${code}`];
+}
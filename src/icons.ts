@@ -0,0 +1,48 @@
+import {
+    Cloud, CloudDrizzle, CloudFog, CloudHail, CloudLightning, CloudMoon, CloudMoonRain, CloudRain, CloudRainWind, CloudSnow,
+    CloudSun, CloudSunRain, Cloudy, Haze, Moon, Snowflake, Sun, createElement,
+} from 'lucide';
+import { Condition } from './types';
+
+// 'bundled' draws lucide icons that work offline and take the theme's text colour, 'provider' shows the provider's images
+export type IconStyle = 'bundled' | 'provider';
+
+type IconNode = typeof Sun;
+
+// Lucide icon of a weatherapi.com condition code, the codes of the other providers are mapped onto these first
+function conditionIcon(code: number, isDay: boolean): IconNode {
+    switch (code) {
+        case 1000: return isDay ? Sun : Moon;
+        case 1003: return isDay ? CloudSun : CloudMoon;
+        case 1006: return Cloud;
+        case 1009: return Cloudy;
+        case 1030: return Haze;
+        case 1135: case 1147: return CloudFog;
+        case 1087: return CloudLightning;
+        case 1114: case 1117: return Snowflake; // blowing snow, blizzard
+        case 1063: case 1180: case 1240: case 1243: return isDay ? CloudSunRain : CloudMoonRain; // patchy rain and showers
+        case 1192: case 1195: case 1246: return CloudRainWind;
+        case 1069: case 1204: case 1207: case 1237: case 1249: case 1252: case 1261: case 1264: return CloudHail; // sleet, ice pellets
+    }
+    if (code >= 1273) return CloudLightning;
+    if (code === 1072 || (code >= 1150 && code <= 1171)) return CloudDrizzle;
+    if (code === 1066 || (code >= 1210 && code <= 1225) || code === 1255 || code === 1258) return CloudSnow;
+    return CloudRain;
+}
+
+// Appends the icon of a condition, an SVG drawn in currentColor or the provider's image
+export function createConditionIcon(el: HTMLElement, condition: Condition, isDay: boolean, style: IconStyle, cls: string, title?: string): void {
+    if (style === 'provider') {
+        el.createEl('img', { cls, attr: { src: condition.icon, alt: condition.text, ...(title ? { title } : {}) } });
+        return;
+    }
+
+    const svg = createElement(conditionIcon(condition.code, isDay));
+    svg.addClass('weather-condition-icon', cls);
+    svg.setAttribute('role', 'img');
+    svg.setAttribute('aria-label', condition.text);
+    if (title) {
+        svg.createSvg('title').textContent = title;
+    }
+    el.appendChild(svg);
+}
@@ -0,0 +1,95 @@
+import { Condition } from '../types';
+import { translateCondition } from '../i18n';
+
+// weatherapi.com condition codes with their icon number and day/night text.
+// Providers without their own codes are mapped onto this list so the rest of the plugin only deals with one set.
+const CONDITIONS: Record<number, { icon: number, day: string, night?: string }> = {
+    1000: { icon: 113, day: 'Sunny', night: 'Clear' },
+    1003: { icon: 116, day: 'Partly cloudy' },
+    1006: { icon: 119, day: 'Cloudy' },
+    1009: { icon: 122, day: 'Overcast' },
+    1030: { icon: 143, day: 'Mist' },
+    1087: { icon: 200, day: 'Thundery outbreaks possible' },
+    1135: { icon: 248, day: 'Fog' },
+    1147: { icon: 260, day: 'Freezing fog' },
+    1150: { icon: 263, day: 'Patchy light drizzle' },
+    1153: { icon: 266, day: 'Light drizzle' },
+    1168: { icon: 281, day: 'Freezing drizzle' },
+    1171: { icon: 284, day: 'Heavy freezing drizzle' },
+    1183: { icon: 296, day: 'Light rain' },
+    1189: { icon: 302, day: 'Moderate rain' },
+    1195: { icon: 308, day: 'Heavy rain' },
+    1198: { icon: 311, day: 'Light freezing rain' },
+    1201: { icon: 314, day: 'Moderate or heavy freezing rain' },
+    1204: { icon: 317, day: 'Light sleet' },
+    1213: { icon: 326, day: 'Light snow' },
+    1219: { icon: 332, day: 'Moderate snow' },
+    1225: { icon: 338, day: 'Heavy snow' },
+    1237: { icon: 350, day: 'Ice pellets' },
+    1240: { icon: 353, day: 'Light rain shower' },
+    1243: { icon: 356, day: 'Moderate or heavy rain shower' },
+    1246: { icon: 359, day: 'Torrential rain shower' },
+    1249: { icon: 362, day: 'Light sleet showers' },
+    1252: { icon: 365, day: 'Moderate or heavy sleet showers' },
+    1255: { icon: 368, day: 'Light snow showers' },
+    1258: { icon: 371, day: 'Moderate or heavy snow showers' },
+    1273: { icon: 386, day: 'Patchy light rain with thunder' },
+    1276: { icon: 389, day: 'Moderate or heavy rain with thunder' },
+    1282: { icon: 395, day: 'Moderate or heavy snow with thunder' },
+};
+
+// WMO weather interpretation codes used by Open-Meteo
+const WMO_CODES: Record<number, number> = {
+    0: 1000, 1: 1003, 2: 1003, 3: 1009,
+    45: 1135, 48: 1147,
+    51: 1150, 53: 1153, 55: 1153, 56: 1168, 57: 1171,
+    61: 1183, 63: 1189, 65: 1195, 66: 1198, 67: 1201,
+    71: 1213, 73: 1219, 75: 1225, 77: 1237,
+    80: 1240, 81: 1243, 82: 1246, 85: 1255, 86: 1258,
+    95: 1276, 96: 1276, 99: 1282,
+};
+
+// OpenWeatherMap condition ids, see https://openweathermap.org/weather-conditions
+const OWM_CODES: Record<number, number> = {
+    200: 1273, 201: 1276, 202: 1276, 230: 1273, 231: 1273, 232: 1276,
+    300: 1150, 301: 1153, 302: 1153,
+    500: 1183, 501: 1189, 502: 1195, 503: 1195, 504: 1195, 511: 1198,
+    520: 1240, 521: 1243, 522: 1246, 531: 1243,
+    600: 1213, 601: 1219, 602: 1225, 611: 1204, 612: 1249, 613: 1252, 615: 1204, 616: 1204,
+    620: 1255, 621: 1258, 622: 1258,
+    741: 1135,
+    800: 1000, 801: 1003, 802: 1006, 803: 1006, 804: 1009,
+};
+
+// Fallbacks for OpenWeatherMap ids missing above, by group
+const OWM_GROUPS: Record<number, number> = { 2: 1087, 3: 1153, 5: 1189, 6: 1219, 7: 1030, 8: 1006 };
+
+// `lang` picks a bundled translation of the text, English when there is none
+export function conditionFromCode(code: number, isDay: boolean, lang = 'en'): Condition {
+    const condition = CONDITIONS[code] ?? CONDITIONS[1006];
+    return {
+        code,
+        text: translateCondition(CONDITIONS[code] ? code : 1006, isDay, lang) ?? (isDay ? condition.day : condition.night ?? condition.day),
+        icon: `https://cdn.weatherapi.com/weather/64x64/${isDay ? 'day' : 'night'}/${condition.icon}.png`,
+    };
+}
+
+// Compact symbol of a condition code, for the status bar and templates
+export function conditionEmoji(code: number, isDay: boolean): string {
+    if (code === 1000) return isDay ? '☀' : '🌙';
+    if (code === 1003) return isDay ? '⛅' : '☁';
+    if (code === 1006 || code === 1009) return '☁';
+    if (code === 1030 || code === 1135 || code === 1147) return '🌫';
+    if (code === 1087 || code >= 1273) return '⛈';
+    if ([1204, 1249, 1252].includes(code)) return '🌨';
+    if ((code >= 1210 && code <= 1237) || code === 1255 || code === 1258) return '❄';
+    return '🌧';
+}
+
+export function codeFromWMO(wmoCode: number): number {
+    return WMO_CODES[wmoCode] ?? 1006;
+}
+
+export function codeFromOpenWeatherMap(id: number): number {
+    return OWM_CODES[id] ?? OWM_GROUPS[Math.floor(id / 100)] ?? 1006;
+}
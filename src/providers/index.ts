@@ -0,0 +1,17 @@
+import { ProviderId, WeatherProvider } from './provider';
+import { weatherApiProvider } from './weatherapi';
+import { openMeteoProvider } from './openmeteo';
+import { openWeatherMapProvider } from './openweathermap';
+
+export type { HistoryRequest, ProviderId, SearchRequest, WeatherProvider, WeatherRequest } from './provider';
+export { parseCoordinates } from './provider';
+
+export const PROVIDERS: Record<ProviderId, WeatherProvider> = {
+    weatherapi: weatherApiProvider,
+    openmeteo: openMeteoProvider,
+    openweathermap: openWeatherMapProvider,
+};
+
+export function getProvider(id: ProviderId): WeatherProvider {
+    return PROVIDERS[id] ?? weatherApiProvider;
+}
@@ -0,0 +1,411 @@
+import { AirQuality, ForecastDay, HistoricalWeather, HourForecast, Place, WeatherData } from '../types';
+import { WeatherError } from '../errors';
+import { t } from '../i18n';
+import { codeFromWMO, conditionFromCode } from './conditions';
+import {
+    HistoryRequest, SearchRequest, WeatherProvider, WeatherRequest, fetchJSON, parseCoordinates,
+    celsiusToFahrenheit, kphToMph, mmToInches, kmToMiles, toClockTime, degreesToCompass,
+} from './provider';
+
+interface GeocodingResponse {
+    results?: {
+        name: string;
+        admin1?: string;
+        country?: string;
+        latitude: number;
+        longitude: number;
+    }[];
+}
+
+interface ForecastResponse {
+    current: {
+        time: string;
+        temperature_2m: number;
+        relative_humidity_2m: number;
+        apparent_temperature: number;
+        is_day: number;
+        weather_code: number;
+        wind_speed_10m: number;
+        wind_direction_10m: number;
+        pressure_msl: number;
+        precipitation: number;
+    };
+    utc_offset_seconds: number;
+    hourly: {
+        time: string[];
+        temperature_2m: number[];
+        apparent_temperature: number[];
+        is_day: number[];
+        weather_code: number[];
+        wind_speed_10m: number[];
+        wind_direction_10m: number[];
+        precipitation: number[];
+        precipitation_probability: number[];
+        rain: number[];
+        showers: number[];
+        snowfall: number[];
+        relative_humidity_2m: number[];
+        visibility: number[];
+        uv_index: number[];
+    };
+    daily: {
+        time: string[];
+        weather_code: number[];
+        temperature_2m_max: number[];
+        temperature_2m_min: number[];
+        sunrise: string[];
+        sunset: string[];
+        uv_index_max: number[];
+        precipitation_sum: number[];
+        rain_sum: number[];
+        showers_sum: number[];
+        snowfall_sum: number[];
+        precipitation_probability_max: number[];
+        wind_speed_10m_max: number[];
+    };
+}
+
+type DailyResponse = Omit<ForecastResponse, 'current'>;
+
+// The archive has no probabilities, showers, visibility or UV index
+type ArchiveResponse = {
+    utc_offset_seconds: number;
+    hourly: Omit<ForecastResponse['hourly'], 'showers' | 'precipitation_probability' | 'visibility' | 'uv_index'>;
+    daily: Omit<ForecastResponse['daily'], 'showers_sum' | 'precipitation_probability_max' | 'uv_index_max'>;
+};
+
+interface AirQualityResponse {
+    current: {
+        carbon_monoxide: number;
+        nitrogen_dioxide: number;
+        ozone: number;
+        sulphur_dioxide: number;
+        pm2_5: number;
+        pm10: number;
+    };
+}
+
+const zeros = (length: number): number[] => new Array(length).fill(0);
+
+// Fills in what the archive lacks so past days go through the same conversion as forecast days
+function completeArchive({ utc_offset_seconds, hourly, daily }: ArchiveResponse): DailyResponse {
+    return {
+        utc_offset_seconds,
+        hourly: {
+            ...hourly,
+            showers: zeros(hourly.time.length),
+            // It either rained or it didn't
+            precipitation_probability: hourly.precipitation.map(precipitation => precipitation > 0 ? 100 : 0),
+            visibility: zeros(hourly.time.length),
+            uv_index: zeros(hourly.time.length),
+        },
+        daily: {
+            ...daily,
+            showers_sum: zeros(daily.time.length),
+            precipitation_probability_max: daily.precipitation_sum.map(precipitation => precipitation > 0 ? 100 : 0),
+            uv_index_max: zeros(daily.time.length),
+        },
+    };
+}
+
+const average = (values: number[]): number =>
+    values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+const CLIMATE_YEARS = 10;
+
+type ClimateResponse = Pick<ArchiveResponse, 'daily'>;
+
+// Daily archive of the last full years per place, the climatology of a date is its average over these years
+const climates: Record<string, Promise<ClimateResponse>> = {};
+
+function fetchClimate(place: Place): Promise<ClimateResponse> {
+    const key = `${place.lat},${place.lon}`;
+    if (!climates[key]) {
+        const lastYear = new Date().getFullYear() - 1;
+        const url = `https://archive-api.open-meteo.com/v1/archive?latitude=${place.lat}&longitude=${place.lon}`
+            + `&timezone=auto&start_date=${lastYear - CLIMATE_YEARS + 1}-01-01&end_date=${lastYear}-12-31`
+            + '&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,rain_sum,'
+            + 'snowfall_sum,wind_speed_10m_max';
+        climates[key] = fetchJSON<ClimateResponse>(url).catch(error => {
+            delete climates[key];
+            throw error;
+        });
+    }
+    return climates[key];
+}
+
+// The most frequent value, for weather codes
+function mostCommon(values: number[]): number {
+    const counts: Record<number, number> = {};
+    values.forEach(value => counts[value] = (counts[value] ?? 0) + 1);
+    return values.reduce((best, value) => counts[value] > counts[best] ? value : best, values[0]);
+}
+
+// The same day of the year averaged over the climate years, with the share of rainy years as the precipitation chance
+function toClimateDay({ daily }: ClimateResponse, date: string, lang: string): ForecastDay | undefined {
+    const days = daily.time
+        .map((time, index) => index)
+        .filter(index => daily.time[index].slice(5) === date.slice(5) && daily.temperature_2m_max[index] !== null);
+    if (!days.length) return undefined;
+
+    const mean = (values: number[]): number => Math.round(days.reduce((sum, index) => sum + values[index], 0) / days.length * 10) / 10;
+    const maxTemp = mean(daily.temperature_2m_max);
+    const minTemp = mean(daily.temperature_2m_min);
+    const avgTemp = Math.round((maxTemp + minTemp) / 2 * 10) / 10;
+    const precipitation = mean(daily.precipitation_sum);
+    const snow = mean(daily.snowfall_sum);
+    const wetDays = days.filter(index => daily.precipitation_sum[index] >= 1).length;
+    const chance = Math.round(wetDays / days.length * 100);
+
+    return {
+        date,
+        date_epoch: Date.parse(`${date}T00:00:00Z`) / 1000,
+        day: {
+            maxtemp_c: maxTemp,
+            maxtemp_f: celsiusToFahrenheit(maxTemp),
+            mintemp_c: minTemp,
+            mintemp_f: celsiusToFahrenheit(minTemp),
+            avgtemp_c: avgTemp,
+            avgtemp_f: celsiusToFahrenheit(avgTemp),
+            maxwind_kph: mean(daily.wind_speed_10m_max),
+            maxwind_mph: kphToMph(mean(daily.wind_speed_10m_max)),
+            totalprecip_mm: precipitation,
+            totalprecip_in: mmToInches(precipitation),
+            totalsnow_cm: snow,
+            avgvis_km: 0,
+            avgvis_miles: 0,
+            avghumidity: 0,
+            daily_will_it_rain: chance >= 50 ? 1 : 0,
+            daily_chance_of_rain: snow === 0 ? chance : 0,
+            daily_will_it_snow: snow > 0 && chance >= 50 ? 1 : 0,
+            daily_chance_of_snow: snow > 0 ? chance : 0,
+            condition: conditionFromCode(codeFromWMO(mostCommon(days.map(index => daily.weather_code[index]))), true, lang),
+            uv: 0,
+        },
+        astro: {
+            sunrise: toClockTime(daily.sunrise[days[days.length - 1]]),
+            sunset: toClockTime(daily.sunset[days[days.length - 1]]),
+            moonrise: '',
+            moonset: '',
+            moon_phase: '',
+            moon_illumination: '',
+            is_moon_up: 0,
+            is_sun_up: 0,
+        },
+        hour: [],
+    };
+}
+
+// The geocoding API matches place names and postcodes
+async function geocode(query: string, lang: string, count: number): Promise<Place[]> {
+    const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query.trim())}&count=${count}&format=json`
+        + `&language=${lang.split('_')[0]}`;
+    const { results } = await fetchJSON<GeocodingResponse>(url);
+    return (results ?? []).map(place => ({
+        name: place.name,
+        region: place.admin1 ?? '',
+        country: place.country ?? '',
+        lat: place.latitude,
+        lon: place.longitude,
+    }));
+}
+
+// Geocoded places, so bulk history requests don't look up the same place every time
+const places: Record<string, Place> = {};
+
+async function resolveLocation(query: string, lang: string): Promise<Place> {
+    const coordinates = parseCoordinates(query);
+    if (coordinates) {
+        return { name: query.trim(), region: '', country: '', ...coordinates };
+    }
+    const key = `${lang}|${query}`;
+    if (places[key]) {
+        return places[key];
+    }
+
+    const [place] = await geocode(query, lang, 1);
+    if (!place) {
+        throw new WeatherError('location', t('error.placeNotFound', { query }));
+    }
+    places[key] = place;
+    return places[key];
+}
+
+function toHourForecast(data: DailyResponse, index: number, lang: string): HourForecast {
+    const { hourly } = data;
+    const time = hourly.time[index];
+    const rain = hourly.rain[index] + hourly.showers[index];
+    const snow = hourly.snowfall[index];
+    const precipProbability = hourly.precipitation_probability[index] ?? 0;
+
+    return {
+        time_epoch: Date.parse(`${time}Z`) / 1000 - data.utc_offset_seconds,
+        time: time.replace('T', ' '),
+        temp_c: hourly.temperature_2m[index],
+        temp_f: celsiusToFahrenheit(hourly.temperature_2m[index]),
+        feelslike_c: hourly.apparent_temperature[index],
+        feelslike_f: celsiusToFahrenheit(hourly.apparent_temperature[index]),
+        is_day: hourly.is_day[index],
+        condition: conditionFromCode(codeFromWMO(hourly.weather_code[index]), hourly.is_day[index] === 1, lang),
+        wind_kph: hourly.wind_speed_10m[index],
+        wind_mph: kphToMph(hourly.wind_speed_10m[index]),
+        wind_dir: degreesToCompass(hourly.wind_direction_10m[index]),
+        precip_mm: hourly.precipitation[index],
+        precip_in: mmToInches(hourly.precipitation[index]),
+        humidity: hourly.relative_humidity_2m[index],
+        will_it_rain: rain > 0 ? 1 : 0,
+        chance_of_rain: rain > 0 || snow === 0 ? precipProbability : 0,
+        will_it_snow: snow > 0 ? 1 : 0,
+        chance_of_snow: snow > 0 ? precipProbability : 0,
+        uv: hourly.uv_index[index],
+    };
+}
+
+function toForecastDays(data: DailyResponse, lang: string): ForecastDay[] {
+    const { daily, hourly } = data;
+
+    return daily.time.map((date, i) => {
+        const hours = hourly.time
+            .map((time, index) => index)
+            .filter(index => hourly.time[index].startsWith(date));
+        const precipProbability = daily.precipitation_probability_max[i] ?? 0;
+        const rain = daily.rain_sum[i] + daily.showers_sum[i];
+        const snow = daily.snowfall_sum[i];
+        const avgVisibilityKm = average(hours.map(index => hourly.visibility[index] / 1000));
+        const maxTemp = daily.temperature_2m_max[i];
+        const minTemp = daily.temperature_2m_min[i];
+        const avgTemp = Math.round((maxTemp + minTemp) / 2 * 10) / 10;
+
+        return {
+            date,
+            date_epoch: Date.parse(`${date}T00:00:00Z`) / 1000,
+            day: {
+                maxtemp_c: maxTemp,
+                maxtemp_f: celsiusToFahrenheit(maxTemp),
+                mintemp_c: minTemp,
+                mintemp_f: celsiusToFahrenheit(minTemp),
+                avgtemp_c: avgTemp,
+                avgtemp_f: celsiusToFahrenheit(avgTemp),
+                maxwind_kph: daily.wind_speed_10m_max[i],
+                maxwind_mph: kphToMph(daily.wind_speed_10m_max[i]),
+                totalprecip_mm: daily.precipitation_sum[i],
+                totalprecip_in: mmToInches(daily.precipitation_sum[i]),
+                totalsnow_cm: snow,
+                avgvis_km: avgVisibilityKm,
+                avgvis_miles: kmToMiles(avgVisibilityKm),
+                avghumidity: average(hours.map(index => hourly.relative_humidity_2m[index])),
+                daily_will_it_rain: rain > 0 ? 1 : 0,
+                // Open-Meteo only has one precipitation probability, split it by the expected kind
+                daily_chance_of_rain: rain > 0 || snow === 0 ? precipProbability : 0,
+                daily_will_it_snow: snow > 0 ? 1 : 0,
+                daily_chance_of_snow: snow > 0 ? precipProbability : 0,
+                condition: conditionFromCode(codeFromWMO(daily.weather_code[i]), true, lang),
+                uv: daily.uv_index_max[i],
+            },
+            astro: {
+                sunrise: toClockTime(daily.sunrise[i]),
+                sunset: toClockTime(daily.sunset[i]),
+                moonrise: '',
+                moonset: '',
+                moon_phase: '',
+                moon_illumination: '',
+                is_moon_up: 0,
+                is_sun_up: 0,
+            },
+            hour: hours.map(index => toHourForecast(data, index, lang)),
+        };
+    });
+}
+
+export const openMeteoProvider: WeatherProvider = {
+    id: 'openmeteo',
+    name: 'Open-Meteo (no API key)',
+    requiresApiKey: false,
+    maxForecastDays: 16,
+    requestInterval: 500,
+
+    async fetchWeather({ query, days, lang }: WeatherRequest): Promise<WeatherData> {
+        const place = await resolveLocation(query, lang);
+        const coordinates = `latitude=${place.lat}&longitude=${place.lon}`;
+
+        const forecastUrl = `https://api.open-meteo.com/v1/forecast?${coordinates}&timezone=auto&forecast_days=${days}`
+            + '&current=temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,wind_speed_10m,'
+            + 'wind_direction_10m,pressure_msl,precipitation'
+            + '&hourly=temperature_2m,apparent_temperature,is_day,weather_code,wind_speed_10m,wind_direction_10m,precipitation,'
+            + 'precipitation_probability,rain,showers,snowfall,relative_humidity_2m,visibility,uv_index'
+            + '&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,uv_index_max,precipitation_sum,'
+            + 'rain_sum,showers_sum,snowfall_sum,precipitation_probability_max,wind_speed_10m_max';
+        const airQualityUrl = `https://air-quality-api.open-meteo.com/v1/air-quality?${coordinates}&timezone=auto`
+            + '&current=carbon_monoxide,nitrogen_dioxide,ozone,sulphur_dioxide,pm2_5,pm10';
+
+        const [forecast, airQuality] = await Promise.all([
+            fetchJSON<ForecastResponse>(forecastUrl),
+            fetchJSON<AirQualityResponse>(airQualityUrl),
+        ]);
+
+        const { current, hourly } = forecast;
+        const currentHour = hourly.time.indexOf(`${current.time.slice(0, 13)}:00`);
+        const air_quality: AirQuality = {
+            co: airQuality.current.carbon_monoxide,
+            no2: airQuality.current.nitrogen_dioxide,
+            o3: airQuality.current.ozone,
+            so2: airQuality.current.sulphur_dioxide,
+            pm2_5: airQuality.current.pm2_5,
+            pm10: airQuality.current.pm10,
+        };
+
+        return {
+            location: { ...place, localtime: current.time.replace('T', ' ') },
+            current: {
+                temp_c: current.temperature_2m,
+                temp_f: celsiusToFahrenheit(current.temperature_2m),
+                feelslike_c: current.apparent_temperature,
+                feelslike_f: celsiusToFahrenheit(current.apparent_temperature),
+                is_day: current.is_day,
+                condition: conditionFromCode(codeFromWMO(current.weather_code), current.is_day === 1, lang),
+                wind_kph: current.wind_speed_10m,
+                wind_dir: degreesToCompass(current.wind_direction_10m),
+                pressure_mb: current.pressure_msl,
+                precip_mm: current.precipitation,
+                vis_km: currentHour >= 0 ? hourly.visibility[currentHour] / 1000 : 0,
+                humidity: current.relative_humidity_2m,
+                uv: currentHour >= 0 ? hourly.uv_index[currentHour] : 0,
+                air_quality,
+            },
+            forecast: { forecastday: toForecastDays(forecast, lang) },
+        };
+    },
+
+    // The archive reaches back to 1940, but lags a few days behind today
+    async fetchHistory({ query, date, lang }: HistoryRequest): Promise<HistoricalWeather> {
+        const place = await resolveLocation(query, lang);
+
+        const url = `https://archive-api.open-meteo.com/v1/archive?latitude=${place.lat}&longitude=${place.lon}`
+            + `&timezone=auto&start_date=${date}&end_date=${date}`
+            + '&hourly=temperature_2m,apparent_temperature,is_day,weather_code,wind_speed_10m,wind_direction_10m,precipitation,'
+            + 'rain,snowfall,relative_humidity_2m'
+            + '&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,rain_sum,'
+            + 'snowfall_sum,wind_speed_10m_max';
+        const archive = await fetchJSON<ArchiveResponse>(url);
+
+        const [forecastday] = toForecastDays(completeArchive(archive), lang);
+        if (!forecastday || forecastday.day.maxtemp_c === null) {
+            throw new WeatherError('unknown', t('error.noHistory', { date }));
+        }
+        return { location: { ...place, localtime: `${date} 00:00` }, forecastday };
+    },
+
+    // Past the 16 day forecast there is only the climatology of the last years
+    async fetchOutlook({ query, date, lang }: HistoryRequest): Promise<HistoricalWeather> {
+        const place = await resolveLocation(query, lang);
+        const forecastday = toClimateDay(await fetchClimate(place), date, lang);
+        if (!forecastday) {
+            throw new WeatherError('unknown', t('error.noClimate', { date }));
+        }
+        return { location: { ...place, localtime: `${date} 00:00` }, forecastday };
+    },
+
+    async searchPlaces({ query, lang }: SearchRequest): Promise<Place[]> {
+        return geocode(query, lang, 10);
+    },
+};
@@ -0,0 +1,250 @@
+import { ForecastDay, HourForecast, Place, WeatherData } from '../types';
+import { codeFromOpenWeatherMap, conditionFromCode } from './conditions';
+import {
+    SearchRequest, WeatherProvider, WeatherRequest, fetchJSON, parseCoordinates,
+    celsiusToFahrenheit, kphToMph, mmToInches, kmToMiles, toClockTime, toLocalISOTime, degreesToCompass,
+} from './provider';
+
+const API_URL = 'https://api.openweathermap.org/data/2.5';
+const GEO_URL = 'https://api.openweathermap.org/geo/1.0';
+
+interface OWMCondition {
+    id: number;
+    description: string;
+    icon: string; // e.g. "10d", the suffix tells day from night
+}
+
+interface CurrentResponse {
+    name: string;
+    dt: number;
+    timezone: number; // offset from UTC in seconds
+    coord: { lat: number, lon: number };
+    weather: OWMCondition[];
+    main: { temp: number, feels_like: number, humidity: number, pressure: number };
+    wind: { speed: number, deg: number }; // m/s
+    visibility?: number; // m
+    rain?: { '1h': number };
+    snow?: { '1h': number };
+    sys: { country: string, sunrise: number, sunset: number };
+}
+
+interface ForecastResponse {
+    list: {
+        dt: number;
+        weather: OWMCondition[];
+        main: { temp: number, feels_like: number, temp_min: number, temp_max: number, humidity: number };
+        wind: { speed: number, deg: number };
+        visibility?: number;
+        pop: number; // 0 to 1
+        rain?: { '3h': number };
+        snow?: { '3h': number };
+    }[];
+}
+
+interface AirPollutionResponse {
+    list: {
+        components: { co: number, no2: number, o3: number, so2: number, pm2_5: number, pm10: number };
+    }[];
+}
+
+const msToKph = (speed: number): number => Math.round(speed * 3.6 * 10) / 10;
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// OpenWeatherMap's codes for the languages it names differently from weatherapi.com
+const LANGUAGE_CODES: Record<string, string> = { zh: 'zh_cn', cs: 'cz', ko: 'kr' };
+
+function toCondition({ id, description, icon }: OWMCondition) {
+    return {
+        ...conditionFromCode(codeFromOpenWeatherMap(id), icon.endsWith('d')),
+        text: description.charAt(0).toUpperCase() + description.slice(1),
+        icon: `https://openweathermap.org/img/wn/${icon}@2x.png`,
+    };
+}
+
+type ForecastStep = ForecastResponse['list'][number];
+
+function toHourForecast(step: ForecastStep, timezone: number): HourForecast {
+    const rain = step.rain?.['3h'] ?? 0;
+    const snow = step.snow?.['3h'] ?? 0;
+    const chance = Math.round(step.pop * 100);
+    const windKph = msToKph(step.wind.speed);
+
+    return {
+        time_epoch: step.dt,
+        time: toLocalISOTime(step.dt, timezone).replace('T', ' '),
+        temp_c: round(step.main.temp),
+        temp_f: celsiusToFahrenheit(step.main.temp),
+        feelslike_c: round(step.main.feels_like),
+        feelslike_f: celsiusToFahrenheit(step.main.feels_like),
+        is_day: step.weather[0].icon.endsWith('d') ? 1 : 0,
+        condition: toCondition(step.weather[0]),
+        wind_kph: windKph,
+        wind_mph: kphToMph(windKph),
+        wind_dir: degreesToCompass(step.wind.deg),
+        precip_mm: round(rain + snow),
+        precip_in: mmToInches(rain + snow),
+        humidity: step.main.humidity,
+        will_it_rain: rain > 0 ? 1 : 0,
+        chance_of_rain: rain > 0 || snow === 0 ? chance : 0,
+        will_it_snow: snow > 0 ? 1 : 0,
+        chance_of_snow: snow > 0 ? chance : 0,
+        uv: 0,
+    };
+}
+
+// The free API only has a 5 day forecast in 3 hour steps, so the steps are folded into days
+function toForecastDays(forecast: ForecastResponse, current: CurrentResponse, days: number): ForecastDay[] {
+    const groups: Record<string, ForecastStep[]> = {};
+    forecast.list.forEach(step => {
+        const date = toLocalISOTime(step.dt, current.timezone).slice(0, 10);
+        (groups[date] = groups[date] ?? []).push(step);
+    });
+
+    return Object.keys(groups).sort().slice(0, days).map((date, i) => {
+        const steps = groups[date];
+        const temps = steps.map(step => step.main.temp);
+        const maxTemp = round(Math.max(...steps.map(step => step.main.temp_max)));
+        const minTemp = round(Math.min(...steps.map(step => step.main.temp_min)));
+        const avgTemp = round(temps.reduce((sum, temp) => sum + temp, 0) / temps.length);
+        const maxWind = msToKph(Math.max(...steps.map(step => step.wind.speed)));
+        const rain = round(steps.reduce((sum, step) => sum + (step.rain?.['3h'] ?? 0), 0));
+        const snow = round(steps.reduce((sum, step) => sum + (step.snow?.['3h'] ?? 0), 0));
+        const chance = Math.round(Math.max(...steps.map(step => step.pop)) * 100);
+        const visibilityKm = round(steps.reduce((sum, step) => sum + (step.visibility ?? 10000), 0) / steps.length / 1000);
+        // Use the step closest to midday as the day's condition
+        const midday = steps.reduce((best, step) =>
+            Math.abs(new Date((step.dt + current.timezone) * 1000).getUTCHours() - 12)
+                < Math.abs(new Date((best.dt + current.timezone) * 1000).getUTCHours() - 12) ? step : best);
+
+        return {
+            date,
+            date_epoch: Date.parse(`${date}T00:00:00Z`) / 1000,
+            day: {
+                maxtemp_c: maxTemp,
+                maxtemp_f: celsiusToFahrenheit(maxTemp),
+                mintemp_c: minTemp,
+                mintemp_f: celsiusToFahrenheit(minTemp),
+                avgtemp_c: avgTemp,
+                avgtemp_f: celsiusToFahrenheit(avgTemp),
+                maxwind_kph: maxWind,
+                maxwind_mph: kphToMph(maxWind),
+                totalprecip_mm: round(rain + snow),
+                totalprecip_in: mmToInches(rain + snow),
+                totalsnow_cm: round(snow / 10),
+                avgvis_km: visibilityKm,
+                avgvis_miles: kmToMiles(visibilityKm),
+                avghumidity: Math.round(steps.reduce((sum, step) => sum + step.main.humidity, 0) / steps.length),
+                daily_will_it_rain: rain > 0 ? 1 : 0,
+                daily_chance_of_rain: rain > 0 || snow === 0 ? chance : 0,
+                daily_will_it_snow: snow > 0 ? 1 : 0,
+                daily_chance_of_snow: snow > 0 ? chance : 0,
+                condition: toCondition({ ...midday.weather[0], icon: midday.weather[0].icon.replace('n', 'd') }),
+                uv: 0, // not part of the free API
+            },
+            astro: {
+                // Sun times are only reported for today
+                sunrise: i === 0 ? toClockTime(toLocalISOTime(current.sys.sunrise, current.timezone)) : '',
+                sunset: i === 0 ? toClockTime(toLocalISOTime(current.sys.sunset, current.timezone)) : '',
+                moonrise: '',
+                moonset: '',
+                moon_phase: '',
+                moon_illumination: '',
+                is_moon_up: 0,
+                is_sun_up: 0,
+            },
+            hour: steps.map(step => toHourForecast(step, current.timezone)),
+        };
+    });
+}
+
+interface GeoResult {
+    name: string;
+    local_names?: Record<string, string>;
+    state?: string;
+    country: string;
+    lat: number;
+    lon: number;
+}
+
+// Postcodes need their country, e.g. "E14,GB" or "10001,US"
+const POSTCODE = /^[\w -]*\d[\w -]*,\s*[A-Za-z]{2}$/;
+
+export const openWeatherMapProvider: WeatherProvider = {
+    id: 'openweathermap',
+    name: 'OpenWeatherMap',
+    requiresApiKey: true,
+    maxForecastDays: 5,
+    requestInterval: 1000,
+
+    async fetchWeather({ query, apiKey, days, lang }: WeatherRequest): Promise<WeatherData> {
+        const coordinates = parseCoordinates(query);
+        const place = coordinates ? `lat=${coordinates.lat}&lon=${coordinates.lon}` : `q=${encodeURIComponent(query)}`;
+        const language = `&lang=${LANGUAGE_CODES[lang] ?? lang}`;
+        const current = await fetchJSON<CurrentResponse>(`${API_URL}/weather?${place}&units=metric${language}&appid=${apiKey}`);
+
+        const { lat, lon } = current.coord;
+        const [forecast, airPollution] = await Promise.all([
+            fetchJSON<ForecastResponse>(`${API_URL}/forecast?lat=${lat}&lon=${lon}&units=metric${language}&appid=${apiKey}`),
+            fetchJSON<AirPollutionResponse>(`${API_URL}/air_pollution?lat=${lat}&lon=${lon}&appid=${apiKey}`),
+        ]);
+        // The list is empty where OpenWeatherMap has no air quality model for the place
+        const components = airPollution.list[0]?.components;
+
+        return {
+            location: {
+                name: current.name,
+                region: '',
+                country: current.sys.country,
+                lat,
+                lon,
+                localtime: toLocalISOTime(current.dt, current.timezone).replace('T', ' '),
+            },
+            current: {
+                temp_c: round(current.main.temp),
+                temp_f: celsiusToFahrenheit(current.main.temp),
+                feelslike_c: round(current.main.feels_like),
+                feelslike_f: celsiusToFahrenheit(current.main.feels_like),
+                is_day: current.weather[0].icon.endsWith('d') ? 1 : 0,
+                condition: toCondition(current.weather[0]),
+                wind_kph: msToKph(current.wind.speed),
+                wind_dir: degreesToCompass(current.wind.deg),
+                pressure_mb: current.main.pressure,
+                precip_mm: round((current.rain?.['1h'] ?? 0) + (current.snow?.['1h'] ?? 0)),
+                vis_km: round((current.visibility ?? 10000) / 1000),
+                humidity: current.main.humidity,
+                uv: 0, // not part of the free API
+                air_quality: components && {
+                    co: components.co,
+                    no2: components.no2,
+                    o3: components.o3,
+                    so2: components.so2,
+                    pm2_5: components.pm2_5,
+                    pm10: components.pm10,
+                },
+            },
+            forecast: { forecastday: toForecastDays(forecast, current, days) },
+        };
+    },
+
+    async searchPlaces({ query, apiKey, lang }: SearchRequest): Promise<Place[]> {
+        const trimmed = query.trim();
+        const coordinates = parseCoordinates(trimmed);
+        let results: GeoResult[];
+        if (coordinates) {
+            results = await fetchJSON<GeoResult[]>(`${GEO_URL}/reverse?lat=${coordinates.lat}&lon=${coordinates.lon}&limit=5&appid=${apiKey}`);
+        } else if (POSTCODE.test(trimmed)) {
+            results = [await fetchJSON<GeoResult>(`${GEO_URL}/zip?zip=${encodeURIComponent(trimmed.replace(/\s*,\s*/, ','))}&appid=${apiKey}`)];
+        } else {
+            results = await fetchJSON<GeoResult[]>(`${GEO_URL}/direct?q=${encodeURIComponent(trimmed)}&limit=5&appid=${apiKey}`);
+        }
+
+        const language = lang.split('_')[0];
+        return results.map(result => ({
+            name: result.local_names?.[language] ?? result.name,
+            region: result.state ?? '',
+            country: result.country,
+            lat: result.lat,
+            lon: result.lon,
+        }));
+    },
+};
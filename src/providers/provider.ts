@@ -0,0 +1,94 @@
+import { HistoricalWeather, Place, WeatherData } from '../types';
+import { WeatherError, WeatherErrorKind, errorKindFromStatus } from '../errors';
+import { t } from '../i18n';
+
+export type ProviderId = 'weatherapi' | 'openmeteo' | 'openweathermap';
+
+export interface WeatherRequest {
+    query: string; // place name, postcode or "lat,lon"
+    apiKey: string;
+    days: number;
+    lang: string; // language of the condition texts, see LANGUAGES in i18n
+}
+
+export interface HistoryRequest {
+    query: string;
+    apiKey: string;
+    date: string; // "YYYY-MM-DD"
+    lang: string;
+}
+
+export interface SearchRequest {
+    query: string; // place name, postcode, airport code or "lat,lon"
+    apiKey: string;
+    lang: string; // language of the place names
+}
+
+export interface WeatherProvider {
+    id: ProviderId;
+    name: string;
+    requiresApiKey: boolean;
+    maxForecastDays: number;
+    requestInterval: number; // milliseconds to wait between requests of bulk jobs
+    fetchWeather(request: WeatherRequest): Promise<WeatherData>;
+    fetchHistory?(request: HistoryRequest): Promise<HistoricalWeather>; // missing when the provider has no history
+    fetchOutlook?(request: HistoryRequest): Promise<HistoricalWeather>; // long-range estimate for a day past the forecast
+    searchPlaces(request: SearchRequest): Promise<Place[]>; // best matches first, empty when nothing matches
+}
+
+// Picks the error kind from a failed response, falling back to the HTTP status when it returns undefined
+export type ErrorClassifier = (status: number, body: unknown) => WeatherErrorKind | undefined;
+
+export async function fetchJSON<T>(url: string, classify?: ErrorClassifier): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (error) {
+        throw new WeatherError('network', t('error.unreachable'));
+    }
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const kind = classify?.(response.status, body) ?? errorKindFromStatus(response.status);
+        const message = providerMessage(body) ?? t('error.status', { status: `${response.status} ${response.statusText}`.trim() });
+        throw new WeatherError(kind, message);
+    }
+    return await response.json();
+}
+
+// The error text of the providers' error bodies
+function providerMessage(body: unknown): string | undefined {
+    if (!body || typeof body !== 'object') return undefined;
+
+    const { error, message, reason } = body as { error?: { message?: string }, message?: string, reason?: string };
+    return error?.message ?? message ?? reason;
+}
+
+// Matches "lat,lon" queries such as "51.5,-0.12"
+export function parseCoordinates(query: string): { lat: number, lon: number } | null {
+    const match = query.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    return { lat: Number(match[1]), lon: Number(match[2]) };
+}
+
+export const celsiusToFahrenheit = (celsius: number): number => Math.round((celsius * 9 / 5 + 32) * 10) / 10;
+export const kphToMph = (kph: number): number => Math.round(kph / 1.609344 * 10) / 10;
+export const mmToInches = (mm: number): number => Math.round(mm / 25.4 * 100) / 100;
+export const kmToMiles = (km: number): number => Math.round(km / 1.609344 * 10) / 10;
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+export const degreesToCompass = (degrees: number): string => COMPASS_POINTS[Math.round(degrees / 22.5) % 16];
+
+// "2023-06-20T05:12" -> "05:12 AM", the format weatherapi.com uses for astro times
+export function toClockTime(isoTime: string): string {
+    const [hours, minutes] = isoTime.slice(11, 16).split(':').map(Number);
+    const suffix = hours < 12 ? 'AM' : 'PM';
+    const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+    return `${displayHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${suffix}`;
+}
+
+// Local wall-clock time of a unix timestamp at the given UTC offset, as "YYYY-MM-DDTHH:mm"
+export function toLocalISOTime(epochSeconds: number, offsetSeconds: number): string {
+    return new Date((epochSeconds + offsetSeconds) * 1000).toISOString().slice(0, 16);
+}
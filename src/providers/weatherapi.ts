@@ -0,0 +1,119 @@
+import { Condition, HistoricalWeather, Place, WeatherAlert, WeatherData } from '../types';
+import { WeatherError } from '../errors';
+import { t } from '../i18n';
+import { ErrorClassifier, HistoryRequest, SearchRequest, WeatherProvider, WeatherRequest, fetchJSON } from './provider';
+
+// See https://www.weatherapi.com/docs/#intro-error-codes
+const classifyError: ErrorClassifier = (status, body) => {
+    switch ((body as { error?: { code?: number } } | null)?.error?.code) {
+        case 1002: // API key not provided
+        case 2006: // API key is invalid
+        case 2008: // API key has been disabled
+            return 'auth';
+        case 1003: // Parameter q not provided
+        case 1006: // No location found
+            return 'location';
+        case 2007: // API key has exceeded calls per month quota
+            return 'quota';
+        default:
+            return undefined;
+    }
+};
+
+interface RawAlert {
+    headline: string;
+    event: string;
+    severity: string;
+    areas: string;
+    effective: string;
+    expires: string;
+    desc: string;
+    instruction: string;
+}
+
+type ForecastResponse = Omit<WeatherData, 'alerts'> & { alerts?: { alert: RawAlert[] } };
+
+// The alerts have no id of their own, so one is built from what identifies an alert
+const toAlert = (alert: RawAlert): WeatherAlert => ({
+    id: [alert.event, alert.areas, alert.effective].join('|'),
+    headline: alert.headline,
+    event: alert.event,
+    severity: alert.severity || 'Unknown',
+    areas: alert.areas,
+    effective: alert.effective,
+    expires: alert.expires,
+    description: alert.desc,
+    instruction: alert.instruction,
+});
+
+// forecast.json already uses the internal model's shape, only the icon URLs are protocol-relative
+const withAbsoluteIcon = (condition: Condition): Condition => ({
+    ...condition,
+    icon: condition.icon.startsWith('//') ? `https:${condition.icon}` : condition.icon,
+});
+
+// English is the default, the other languages only translate condition texts
+const langParam = (lang: string): string => lang && lang !== 'en' ? `&lang=${lang}` : '';
+
+// Three capital letters are taken as an airport code, e.g. "LHR"
+const searchQuery = (query: string): string => /^[A-Z]{3}$/.test(query) ? `iata:${query}` : query;
+
+// history.json and future.json return a single day in the forecast.json shape
+function toHistoricalWeather({ location, forecast }: WeatherData, date: string): HistoricalWeather {
+    const forecastday = forecast?.forecastday[0];
+    if (!forecastday) {
+        throw new WeatherError('unknown', t('error.noWeatherFor', { date }));
+    }
+    forecastday.day.condition = withAbsoluteIcon(forecastday.day.condition);
+    forecastday.hour.forEach(hour => {
+        hour.condition = withAbsoluteIcon(hour.condition);
+    });
+    return { location, forecastday };
+}
+
+export const weatherApiProvider: WeatherProvider = {
+    id: 'weatherapi',
+    name: 'WeatherAPI.com',
+    requiresApiKey: true,
+    maxForecastDays: 14, // the free plan stops at 3 days
+    requestInterval: 1000,
+
+    async fetchWeather({ query, apiKey, days, lang }: WeatherRequest): Promise<WeatherData> {
+        const url = `https://api.weatherapi.com/v1/forecast.json?key=${apiKey}&q=${encodeURIComponent(query)}&days=${days}&aqi=yes&alerts=yes${langParam(lang)}`;
+        const { alerts, ...data } = await fetchJSON<ForecastResponse>(url, classifyError);
+
+        data.current.condition = withAbsoluteIcon(data.current.condition);
+        data.forecast?.forecastday.forEach(forecastDay => {
+            forecastDay.day.condition = withAbsoluteIcon(forecastDay.day.condition);
+            forecastDay.hour.forEach(hour => {
+                hour.condition = withAbsoluteIcon(hour.condition);
+            });
+        });
+
+        // The same alert is often listed once per affected area group, keep one of each
+        const unique: Record<string, WeatherAlert> = {};
+        (alerts?.alert ?? []).map(toAlert).forEach(alert => {
+            unique[alert.id] = unique[alert.id] ?? alert;
+        });
+        return { ...data, alerts: Object.values(unique) };
+    },
+
+    // The free plan only reaches 7 days back
+    async fetchHistory({ query, apiKey, date, lang }: HistoryRequest): Promise<HistoricalWeather> {
+        const url = `https://api.weatherapi.com/v1/history.json?key=${apiKey}&q=${encodeURIComponent(query)}&dt=${date}${langParam(lang)}`;
+        return toHistoricalWeather(await fetchJSON<WeatherData>(url, classifyError), date);
+    },
+
+    // future.json covers 14 to 300 days ahead and needs a paid plan
+    async fetchOutlook({ query, apiKey, date, lang }: HistoryRequest): Promise<HistoricalWeather> {
+        const url = `https://api.weatherapi.com/v1/future.json?key=${apiKey}&q=${encodeURIComponent(query)}&dt=${date}${langParam(lang)}`;
+        return toHistoricalWeather(await fetchJSON<WeatherData>(url, classifyError), date);
+    },
+
+    // search.json understands names, postcodes, airport codes and "lat,lon"
+    async searchPlaces({ query, apiKey, lang }: SearchRequest): Promise<Place[]> {
+        const url = `https://api.weatherapi.com/v1/search.json?key=${apiKey}&q=${encodeURIComponent(searchQuery(query.trim()))}${langParam(lang)}`;
+        const results = await fetchJSON<Place[]>(url, classifyError);
+        return results.map(({ name, region, country, lat, lon }) => ({ name, region, country, lat, lon }));
+    },
+};
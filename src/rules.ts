@@ -0,0 +1,138 @@
+import { WeatherData } from './types';
+import { t } from './i18n';
+import { UNIT_LABELS, UnitSettings, convertPrecipitation, convertTemperature, convertWind } from './units';
+
+export type RuleMetric =
+    'temp' | 'feelslike' | 'humidity' | 'uv' | 'wind' | 'aqi' |
+    'maxtemp' | 'mintemp' | 'chance_of_rain' | 'chance_of_snow' | 'totalprecip' | 'day_uv' | 'maxwind';
+
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+
+// A user-defined threshold, checked after every refresh
+export interface WeatherRule {
+    id: string;
+    enabled: boolean;
+    metric: RuleMetric;
+    operator: RuleOperator;
+    value: number;
+    day: number; // forecast day for day metrics, 0 is today
+    note: string; // path of a note to append a line to when the rule fires, empty for none
+}
+
+interface RuleContext {
+    data: WeatherData;
+    aqi: number | undefined; // undefined when nothing was measured, so AQI rules don't fire
+    units: UnitSettings; // values are compared in the units the user sees
+}
+
+interface MetricDefinition {
+    scope: 'current' | 'day';
+    unit(units: UnitSettings): string;
+    get(context: RuleContext, day: number): number | undefined;
+}
+
+const temperatureUnit = (units: UnitSettings) => UNIT_LABELS.temperature[units.temperature];
+const windUnit = (units: UnitSettings) => ` ${UNIT_LABELS.wind[units.wind]}`;
+const noUnit = () => '';
+
+const forecastDay = (data: WeatherData, day: number) => data.forecast?.forecastday[day]?.day;
+
+export const RULE_METRICS: Record<RuleMetric, MetricDefinition> = {
+    temp: {
+        scope: 'current', unit: temperatureUnit,
+        get: ({ data, units }) => convertTemperature(data.current.temp_c, units.temperature),
+    },
+    feelslike: {
+        scope: 'current', unit: temperatureUnit,
+        get: ({ data, units }) => convertTemperature(data.current.feelslike_c, units.temperature),
+    },
+    humidity: {
+        scope: 'current', unit: () => '%',
+        get: ({ data }) => data.current.humidity,
+    },
+    uv: {
+        scope: 'current', unit: noUnit,
+        get: ({ data }) => data.current.uv,
+    },
+    wind: {
+        scope: 'current', unit: windUnit,
+        get: ({ data, units }) => convertWind(data.current.wind_kph, units.wind),
+    },
+    aqi: {
+        scope: 'current', unit: noUnit,
+        get: ({ aqi }) => aqi,
+    },
+    maxtemp: {
+        scope: 'day', unit: temperatureUnit,
+        get: ({ data, units }, day) => {
+            const forecast = forecastDay(data, day);
+            return forecast && convertTemperature(forecast.maxtemp_c, units.temperature);
+        },
+    },
+    mintemp: {
+        scope: 'day', unit: temperatureUnit,
+        get: ({ data, units }, day) => {
+            const forecast = forecastDay(data, day);
+            return forecast && convertTemperature(forecast.mintemp_c, units.temperature);
+        },
+    },
+    chance_of_rain: {
+        scope: 'day', unit: () => '%',
+        get: ({ data }, day) => forecastDay(data, day)?.daily_chance_of_rain,
+    },
+    chance_of_snow: {
+        scope: 'day', unit: () => '%',
+        get: ({ data }, day) => forecastDay(data, day)?.daily_chance_of_snow,
+    },
+    totalprecip: {
+        scope: 'day', unit: (units) => ` ${UNIT_LABELS.precipitation[units.precipitation]}`,
+        get: ({ data, units }, day) => {
+            const forecast = forecastDay(data, day);
+            return forecast && convertPrecipitation(forecast.totalprecip_mm, units.precipitation);
+        },
+    },
+    day_uv: {
+        scope: 'day', unit: noUnit,
+        get: ({ data }, day) => forecastDay(data, day)?.uv,
+    },
+    maxwind: {
+        scope: 'day', unit: windUnit,
+        get: ({ data, units }, day) => {
+            const forecast = forecastDay(data, day);
+            return forecast && convertWind(forecast.maxwind_kph, units.wind);
+        },
+    },
+};
+
+export const metricName = (metric: RuleMetric): string => t(`rule.${metric}`);
+
+export function dayName(day: number): string {
+    return day === 0 ? t('rule.today') : day === 1 ? t('rule.tomorrow') : t('rule.inDays', { days: day });
+}
+
+export function describeRule(rule: WeatherRule, units: UnitSettings): string {
+    const definition = RULE_METRICS[rule.metric];
+    const day = definition.scope === 'day' ? ` ${dayName(rule.day)}` : '';
+    return `${metricName(rule.metric)}${day} ${rule.operator} ${rule.value}${definition.unit(units)}`;
+}
+
+// Returns the measured value when the rule is met, undefined otherwise
+export function checkRule(rule: WeatherRule, data: WeatherData, aqi: number | undefined, units: UnitSettings): number | undefined {
+    const definition = RULE_METRICS[rule.metric];
+    if (!definition) return undefined;
+
+    const measured = definition.get({ data, aqi, units }, rule.day);
+    if (measured === undefined || isNaN(measured)) return undefined;
+    const value = Math.round(measured * 10) / 10;
+
+    switch (rule.operator) {
+        case '>':
+            return value > rule.value ? value : undefined;
+        case '>=':
+            return value >= rule.value ? value : undefined;
+        case '<':
+            return value < rule.value ? value : undefined;
+        case '<=':
+            return value <= rule.value ? value : undefined;
+    }
+}
@@ -0,0 +1,31 @@
+import { WeatherContext } from './components';
+import { WeatherError } from './errors';
+
+// What the weather views show: the weather of the active location or note, and why it could not be refreshed
+export interface WeatherSnapshot {
+    context: WeatherContext | null;
+    error: WeatherError | null;
+}
+
+type Listener = (snapshot: WeatherSnapshot) => void;
+
+// The plugin writes the snapshot once per change and every open weather view renders it,
+// whether it sits in a sidebar, the main area or a popout window
+export class WeatherStore {
+    snapshot: WeatherSnapshot = { context: null, error: null };
+    listeners: Listener[] = [];
+
+    set(snapshot: WeatherSnapshot) {
+        this.snapshot = snapshot;
+        this.listeners.forEach(listener => listener(snapshot));
+    }
+
+    // The listener gets the current snapshot straight away; call the returned function to stop listening
+    subscribe(listener: Listener): () => void {
+        this.listeners.push(listener);
+        listener(this.snapshot);
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        };
+    }
+}
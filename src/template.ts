@@ -0,0 +1,88 @@
+import { moment } from 'obsidian';
+import { WeatherData } from './types';
+import { ClockFormat, formatClockTime, formatTime } from './datetime';
+import { conditionEmoji } from './providers/conditions';
+import {
+    UNIT_LABELS, UnitSettings, TemperatureUnit, WindUnit, PrecipitationUnit, PressureUnit, DistanceUnit,
+    formatTemperature, formatWind, formatPrecipitation, formatPressure, formatDistance,
+} from './units';
+
+export interface TemplateOptions {
+    units: UnitSettings;
+    clock: ClockFormat;
+    aqi: number | undefined; // undefined when nothing was measured
+}
+
+// Picks the unit named by a modifier, e.g. {{wind|knots}}, falling back to the user's unit
+function unitFromModifier<T extends string>(modifier: string, labels: Record<T, string>, fallback: T): T {
+    const match = (Object.keys(labels) as T[]).find(unit =>
+        unit.toLowerCase() === modifier.toLowerCase() || labels[unit].toLowerCase() === modifier.toLowerCase());
+    return match ?? fallback;
+}
+
+// Fills {{placeholder}} or {{placeholder|modifier}} with values from the weather data.
+// Measurements take a unit as modifier, times and dates take a moment.js format.
+export function fillWeatherTemplate(template: string, data: WeatherData, options: TemplateOptions): string {
+    const { current, location, forecast } = data;
+    const { units } = options;
+    const today = forecast?.forecastday[0];
+    const localTime = moment(location.localtime, 'YYYY-MM-DD HH:mm');
+
+    const temperature = (celsius: number, modifier: string): string =>
+        formatTemperature(celsius, unitFromModifier<TemperatureUnit>(modifier, UNIT_LABELS.temperature, units.temperature), 1);
+    const astroTime = (time: string | undefined, modifier: string): string => {
+        if (!time) return '';
+        const parsed = moment(time, 'hh:mm A');
+        return parsed.isValid() && modifier ? parsed.format(modifier) : formatClockTime(time, options.clock);
+    };
+
+    return template.replace(/{{\s*([\w]+)\s*(?:\|([^}]*))?}}/g, (match, name: string, modifier = '') => {
+        modifier = modifier.trim();
+        switch (name.toLowerCase()) {
+            case 'temp':
+                return temperature(current.temp_c, modifier);
+            case 'feelslike':
+                return temperature(current.feelslike_c, modifier);
+            case 'high':
+                return today ? temperature(today.day.maxtemp_c, modifier) : '';
+            case 'low':
+                return today ? temperature(today.day.mintemp_c, modifier) : '';
+            case 'condition':
+                return current.condition.text;
+            case 'icon':
+                return conditionEmoji(current.condition.code, current.is_day !== 0);
+            case 'humidity':
+                return `${current.humidity}%`;
+            case 'wind':
+                return formatWind(current.wind_kph, unitFromModifier<WindUnit>(modifier, UNIT_LABELS.wind, units.wind));
+            case 'winddir':
+                return current.wind_dir;
+            case 'precip':
+                return formatPrecipitation(current.precip_mm, unitFromModifier<PrecipitationUnit>(modifier, UNIT_LABELS.precipitation, units.precipitation));
+            case 'pressure':
+                return formatPressure(current.pressure_mb, unitFromModifier<PressureUnit>(modifier, UNIT_LABELS.pressure, units.pressure));
+            case 'visibility':
+                return formatDistance(current.vis_km, unitFromModifier<DistanceUnit>(modifier, UNIT_LABELS.distance, units.distance));
+            case 'rain':
+                return today ? `${today.day.daily_chance_of_rain}%` : '';
+            case 'uv':
+                return `${current.uv}`;
+            case 'aqi':
+                return options.aqi === undefined ? '' : `${options.aqi}`;
+            case 'sunrise':
+                return astroTime(today?.astro.sunrise, modifier);
+            case 'sunset':
+                return astroTime(today?.astro.sunset, modifier);
+            case 'location':
+                return modifier.toLowerCase() === 'full'
+                    ? [location.name, location.region, location.country].filter(part => part).join(', ')
+                    : location.name;
+            case 'date':
+                return localTime.format(modifier || 'YYYY-MM-DD');
+            case 'time':
+                return modifier ? localTime.format(modifier) : formatTime(location.localtime, options.clock);
+            default:
+                return match; // Leave unknown placeholders alone
+        }
+    });
+}
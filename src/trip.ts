@@ -0,0 +1,71 @@
+import { moment } from 'obsidian';
+import { ForecastDay } from './types';
+import { t } from './i18n';
+import { formatDate } from './datetime';
+import { conditionEmoji } from './providers/conditions';
+import { UnitSettings, formatDegrees, formatWind } from './units';
+
+// Where a trip day's weather comes from: the regular forecast, the provider's long-range outlook, or nowhere yet
+export type TripSource = 'forecast' | 'outlook' | 'none';
+
+export interface TripDay {
+    date: string; // "YYYY-MM-DD"
+    source: TripSource;
+    forecastDay?: ForecastDay;
+}
+
+export const MAX_TRIP_DAYS = 31;
+
+// Forecasts further ahead than this are marked as uncertain
+const RELIABLE_FORECAST_DAYS = 7;
+
+// Every date from start to end, both included
+export function tripDates(start: string, end: string): string[] {
+    const dates: string[] = [];
+    for (const date = moment(start, 'YYYY-MM-DD', true); date.isSameOrBefore(moment(end, 'YYYY-MM-DD', true), 'day'); date.add(1, 'day')) {
+        dates.push(date.format('YYYY-MM-DD'));
+    }
+    return dates;
+}
+
+function reliability({ date, source }: TripDay, today: string): string {
+    switch (source) {
+        case 'outlook':
+            return `⚠ ${t('trip.outlook')}`;
+        case 'none':
+            return `⚠ ${t('trip.noForecast')}`;
+        default:
+            return moment(date).diff(moment(today), 'days') > RELIABLE_FORECAST_DAYS ? `⚠ ${t('trip.uncertain')}` : '';
+    }
+}
+
+// Markdown table with one row per day, `today` is the location's current date
+export function formatTripTable(location: string, days: TripDay[], units: UnitSettings, today: string): string {
+    const header = [t('trip.date'), t('trip.weather'), t('trip.highLow'), t('trip.precipChance'), t('trip.wind'), t('trip.reliability')];
+    const rows = days.map(tripDay => {
+        const dateText = formatDate(tripDay.date, { weekday: 'short', day: 'numeric', month: 'short' });
+        const day = tripDay.forecastDay?.day;
+        if (!day) {
+            return [dateText, '–', '–', '–', '–', reliability(tripDay, today)];
+        }
+        const chance = Math.max(day.daily_chance_of_rain, day.daily_chance_of_snow);
+        return [
+            dateText,
+            `${conditionEmoji(day.condition.code, true)} ${day.condition.text}`,
+            `${formatDegrees(day.maxtemp_c, units.temperature)} / ${formatDegrees(day.mintemp_c, units.temperature)}`,
+            `${chance}%`,
+            formatWind(day.maxwind_kph, units.wind),
+            reliability(tripDay, today),
+        ];
+    });
+
+    // Pipes in condition texts would break the table
+    const toRow = (cells: string[]): string => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+    return [
+        `**${location}**`,
+        '',
+        toRow(header),
+        toRow(header.map(() => '---')),
+        ...rows.map(toRow),
+    ].join('\n');
+}
@@ -0,0 +1,140 @@
+// Internal weather model - every provider converts its payload into these shapes
+
+export interface Condition {
+    text: string;
+    code: number; // weatherapi.com condition code, other providers are mapped onto these
+    icon: string; // absolute URL of the provider's icon
+}
+
+export interface AirQuality {
+    co: number;
+    no2: number;
+    o3: number;
+    so2: number;
+    pm2_5: number;
+    pm10: number;
+    "us-epa-index"?: number; // only weatherapi.com reports these indexes
+    "gb-defra-index"?: number;
+}
+
+export interface Current {
+    temp_c: number;
+    feelslike_c: number;
+    temp_f: number;
+    feelslike_f: number;
+    is_day: number; // 1 during daylight
+    condition: Condition;
+    wind_kph: number;
+    wind_dir: string; // compass point, e.g. "NNE"
+    pressure_mb: number;
+    precip_mm: number;
+    vis_km: number;
+    humidity: number;
+    uv: number;
+    air_quality?: AirQuality; // missing when the provider has no measurements for the place
+}
+
+export interface Location {
+    name: string;
+    region: string;
+    country: string;
+    lat: number;
+    lon: number;
+    localtime: string; // "YYYY-MM-DD HH:mm" in the location's own timezone
+}
+
+// A place found by a provider's location search
+export type Place = Omit<Location, 'localtime'>;
+
+export interface DayForecast {
+    maxtemp_c: number;
+    maxtemp_f: number;
+    mintemp_c: number;
+    mintemp_f: number;
+    avgtemp_c: number;
+    avgtemp_f: number;
+    maxwind_mph: number;
+    maxwind_kph: number;
+    totalprecip_mm: number;
+    totalprecip_in: number;
+    totalsnow_cm: number;
+    avgvis_km: number;
+    avgvis_miles: number;
+    avghumidity: number;
+    daily_will_it_rain: number;
+    daily_chance_of_rain: number;
+    daily_will_it_snow: number;
+    daily_chance_of_snow: number;
+    condition: Condition;
+    uv: number;
+}
+
+export interface Astro {
+    sunrise: string;
+    sunset: string;
+    moonrise: string;
+    moonset: string;
+    moon_phase: string;
+    moon_illumination: string;
+    is_moon_up: number;
+    is_sun_up: number;
+}
+
+export interface HourForecast {
+    time_epoch: number;
+    time: string; // "YYYY-MM-DD HH:mm" in the location's own timezone
+    temp_c: number;
+    temp_f: number;
+    feelslike_c: number;
+    feelslike_f: number;
+    is_day: number;
+    condition: Condition;
+    wind_kph: number;
+    wind_mph: number;
+    wind_dir: string; // compass point, e.g. "NNE"
+    precip_mm: number;
+    precip_in: number;
+    humidity: number;
+    will_it_rain: number;
+    chance_of_rain: number;
+    will_it_snow: number;
+    chance_of_snow: number;
+    uv: number;
+}
+
+export interface ForecastDay {
+    date: string;
+    date_epoch: number;
+    day: DayForecast;
+    astro: Astro;
+    hour: HourForecast[]; // hourly for weatherapi.com and Open-Meteo, 3-hourly for OpenWeatherMap
+}
+
+export interface Forecast {
+    forecastday: ForecastDay[];
+}
+
+export interface WeatherAlert {
+    id: string; // stable for the same alert across refreshes
+    headline: string;
+    event: string;
+    severity: string; // "Extreme", "Severe", "Moderate", "Minor" or "Unknown"
+    areas: string;
+    effective: string;
+    expires: string;
+    description: string;
+    instruction: string;
+}
+
+export interface WeatherData {
+    current: Current;
+    location: Location;
+    forecast?: Forecast;
+    alerts?: WeatherAlert[]; // only weatherapi.com reports government alerts
+}
+
+// One past day, as returned by the providers' history endpoints
+export interface HistoricalWeather {
+    location: Location;
+    forecastday: ForecastDay;
+}
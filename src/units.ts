@@ -0,0 +1,85 @@
+// Unit choices and conversions. The internal model's metric values (°C, km/h, mm, hPa, km) are the base for all of them.
+
+export type TemperatureUnit = 'C' | 'F';
+export type WindUnit = 'kph' | 'mph' | 'ms' | 'knots' | 'beaufort';
+export type PrecipitationUnit = 'mm' | 'in';
+export type PressureUnit = 'hPa' | 'inHg';
+export type DistanceUnit = 'km' | 'mi';
+
+export interface UnitSettings {
+    temperature: TemperatureUnit;
+    wind: WindUnit;
+    precipitation: PrecipitationUnit;
+    pressure: PressureUnit;
+    distance: DistanceUnit;
+}
+
+export type UnitPreset = 'metric' | 'imperial' | 'uk';
+
+export const UNIT_PRESETS: Record<UnitPreset, UnitSettings> = {
+    metric: { temperature: 'C', wind: 'kph', precipitation: 'mm', pressure: 'hPa', distance: 'km' },
+    imperial: { temperature: 'F', wind: 'mph', precipitation: 'in', pressure: 'inHg', distance: 'mi' },
+    uk: { temperature: 'C', wind: 'mph', precipitation: 'mm', pressure: 'hPa', distance: 'mi' },
+};
+
+export const UNIT_LABELS = {
+    temperature: { C: '°C', F: '°F' } as Record<TemperatureUnit, string>,
+    wind: { kph: 'km/h', mph: 'mph', ms: 'm/s', knots: 'kn', beaufort: 'Bft' } as Record<WindUnit, string>,
+    precipitation: { mm: 'mm', in: 'in' } as Record<PrecipitationUnit, string>,
+    pressure: { hPa: 'hPa', inHg: 'inHg' } as Record<PressureUnit, string>,
+    distance: { km: 'km', mi: 'mi' } as Record<DistanceUnit, string>,
+};
+
+// Lower bounds of Beaufort 1 to 12 in km/h
+const BEAUFORT_SCALE = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+export const roundTo = (value: number, decimals: number): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+    unit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+
+export function convertWind(kph: number, unit: WindUnit): number {
+    switch (unit) {
+        case 'mph':
+            return kph / 1.609344;
+        case 'ms':
+            return kph / 3.6;
+        case 'knots':
+            return kph / 1.852;
+        case 'beaufort':
+            return BEAUFORT_SCALE.filter(lowerBound => kph >= lowerBound).length;
+        default:
+            return kph;
+    }
+}
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit): number => unit === 'in' ? mm / 25.4 : mm;
+export const convertPressure = (hPa: number, unit: PressureUnit): number => unit === 'inHg' ? hPa * 0.02953 : hPa;
+export const convertDistance = (km: number, unit: DistanceUnit): number => unit === 'mi' ? km / 1.609344 : km;
+
+// `decimals` is for the current temperature, forecasts are rounded to whole degrees
+export const formatTemperature = (celsius: number, unit: TemperatureUnit, decimals = 0): string =>
+    `${roundTo(convertTemperature(celsius, unit), decimals)}${UNIT_LABELS.temperature[unit]}`;
+
+// Degrees without the unit, for compact lists
+export const formatDegrees = (celsius: number, unit: TemperatureUnit): string =>
+    `${Math.round(convertTemperature(celsius, unit))}°`;
+
+export const formatWind = (kph: number, unit: WindUnit): string =>
+    `${Math.round(convertWind(kph, unit))} ${UNIT_LABELS.wind[unit]}`;
+
+export const formatPrecipitation = (mm: number, unit: PrecipitationUnit): string =>
+    `${roundTo(convertPrecipitation(mm, unit), unit === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[unit]}`;
+
+// Snow depth follows the precipitation unit, in cm instead of mm
+export const formatSnow = (cm: number, unit: PrecipitationUnit): string =>
+    unit === 'in' ? `${roundTo(cm / 2.54, 1)} in` : `${roundTo(cm, 1)} cm`;
+
+export const formatPressure = (hPa: number, unit: PressureUnit): string =>
+    `${roundTo(convertPressure(hPa, unit), unit === 'inHg' ? 2 : 0)} ${UNIT_LABELS.pressure[unit]}`;
+
+export const formatDistance = (km: number, unit: DistanceUnit): string =>
+    `${roundTo(convertDistance(km, unit), 1)} ${UNIT_LABELS.distance[unit]}`;